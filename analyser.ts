@@ -9,20 +9,36 @@ export class Analyser {
   private analyser: AnalyserNode;
   private bufferLength = 0;
   private dataArray: Uint8Array;
+  private waveformArray: Uint8Array;
 
-  constructor(node: AudioNode) {
+  constructor(
+    private readonly node: AudioNode,
+    fftSize = 32,
+  ) {
     this.analyser = node.context.createAnalyser();
-    this.analyser.fftSize = 32;
+    this.analyser.fftSize = fftSize;
     this.bufferLength = this.analyser.frequencyBinCount;
     this.dataArray = new Uint8Array(this.bufferLength);
+    this.waveformArray = new Uint8Array(this.analyser.fftSize);
     node.connect(this.analyser);
   }
 
   update() {
     this.analyser.getByteFrequencyData(this.dataArray);
+    this.analyser.getByteTimeDomainData(this.waveformArray);
   }
 
   get data() {
     return this.dataArray;
   }
+
+  /** Time-domain samples of the last update, centred on 128. */
+  get waveform() {
+    return this.waveformArray;
+  }
+
+  /** Detaches the analyser from the node it listens to. */
+  disconnect() {
+    this.node.disconnect(this.analyser);
+  }
 }
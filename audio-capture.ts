@@ -0,0 +1,186 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {name as processorName, source as processorSource} from './capture-worklet';
+import {createLogger} from './logger';
+import {floatTo16BitPCM} from './utils';
+
+const log = createLogger('capture');
+
+/** Samples per chunk when no size is given (32 ms at 16 kHz). */
+const DEFAULT_CHUNK_SIZE = 512;
+
+/** Buffer size of the fallback ScriptProcessorNode. */
+const SCRIPT_PROCESSOR_BUFFER_SIZE = 256;
+
+export type CaptureMode = 'worklet' | 'script-processor';
+
+export interface AudioCaptureOptions {
+  /** Number of samples per PCM chunk handed to `onChunk`. */
+  chunkSize?: number;
+  /** Skip the AudioWorklet path even where it is available. */
+  forceScriptProcessor?: boolean;
+}
+
+/** Modules added to each context, by processor source. */
+const workletModules = new WeakMap<
+  BaseAudioContext,
+  Map<string, Promise<void>>
+>();
+
+/**
+ * Adds a worklet module given as source text to `context`, once per
+ * context. Other processors, such as the noise gate, load through here too.
+ */
+export function loadWorkletModule(
+  context: BaseAudioContext,
+  source = processorSource,
+): Promise<void> {
+  let modules = workletModules.get(context);
+  if (!modules) {
+    modules = new Map();
+    workletModules.set(context, modules);
+  }
+  let loaded = modules.get(source);
+  if (!loaded) {
+    const url = URL.createObjectURL(
+      new Blob([source], {type: 'application/javascript'}),
+    );
+    loaded = context.audioWorklet
+      .addModule(url)
+      .finally(() => URL.revokeObjectURL(url));
+    // Allow a later attempt if loading failed.
+    loaded.catch(() => modules.delete(source));
+    modules.set(source, loaded);
+  }
+  return loaded;
+}
+
+/**
+ * Captures an audio node as 16-bit PCM chunks of a fixed size.
+ *
+ * Uses an AudioWorklet so conversion and batching happen on the audio
+ * thread, and falls back to a ScriptProcessorNode where AudioWorklet is not
+ * available.
+ */
+export class AudioCapture {
+  /** Called with each full chunk of 16-bit PCM. */
+  onChunk: (pcm: Int16Array) => void = () => {};
+
+  readonly chunkSize: number;
+  private readonly forceScriptProcessor: boolean;
+  private source: AudioNode | null = null;
+  private workletNode: AudioWorkletNode | null = null;
+  private scriptProcessorNode: ScriptProcessorNode | null = null;
+  private pending: Int16Array;
+  private pendingOffset = 0;
+  private currentMode: CaptureMode | null = null;
+
+  constructor(
+    private readonly context: AudioContext,
+    options: AudioCaptureOptions = {},
+  ) {
+    this.chunkSize = Math.max(
+      1,
+      Math.floor(options.chunkSize ?? DEFAULT_CHUNK_SIZE),
+    );
+    this.forceScriptProcessor = !!options.forceScriptProcessor;
+    this.pending = new Int16Array(this.chunkSize);
+  }
+
+  /** The active capture path, or null when not capturing. */
+  get mode(): CaptureMode | null {
+    return this.currentMode;
+  }
+
+  /** Starts capturing `source`. Any previous capture is stopped first. */
+  async start(source: AudioNode) {
+    this.stop();
+    this.source = source;
+
+    if (!this.forceScriptProcessor && this.context.audioWorklet) {
+      try {
+        await loadWorkletModule(this.context);
+        if (this.source !== source) return; // Stopped while loading.
+        this.startWorklet(source);
+        return;
+      } catch (e) {
+        log.warn(
+          'AudioWorklet unavailable, falling back to ScriptProcessorNode:',
+          e,
+        );
+        if (this.source !== source) return;
+      }
+    }
+    this.startScriptProcessor(source);
+  }
+
+  /** Stops capturing and drops any partially filled chunk. */
+  stop() {
+    if (this.workletNode) {
+      this.workletNode.port.onmessage = null;
+      this.source?.disconnect(this.workletNode);
+      this.workletNode = null;
+    }
+    if (this.scriptProcessorNode) {
+      this.source?.disconnect(this.scriptProcessorNode);
+      this.scriptProcessorNode.disconnect();
+      this.scriptProcessorNode.onaudioprocess = null;
+      this.scriptProcessorNode = null;
+    }
+    this.source = null;
+    this.pendingOffset = 0;
+    this.currentMode = null;
+  }
+
+  private startWorklet(source: AudioNode) {
+    const node = new AudioWorkletNode(this.context, processorName, {
+      numberOfInputs: 1,
+      numberOfOutputs: 0,
+      channelCount: 1,
+      channelCountMode: 'explicit',
+      processorOptions: {chunkSize: this.chunkSize},
+    });
+    node.port.onmessage = (e: MessageEvent<ArrayBuffer>) => {
+      this.onChunk(new Int16Array(e.data));
+    };
+    source.connect(node);
+    this.workletNode = node;
+    this.currentMode = 'worklet';
+  }
+
+  private startScriptProcessor(source: AudioNode) {
+    const node = this.context.createScriptProcessor(
+      SCRIPT_PROCESSOR_BUFFER_SIZE,
+      1,
+      1,
+    );
+    node.onaudioprocess = (audioProcessingEvent) => {
+      const pcmData = audioProcessingEvent.inputBuffer.getChannelData(0);
+      this.push(floatTo16BitPCM(pcmData));
+    };
+    source.connect(node);
+    // A ScriptProcessorNode only runs while connected to the destination.
+    node.connect(this.context.destination);
+    this.scriptProcessorNode = node;
+    this.currentMode = 'script-processor';
+  }
+
+  private push(samples: Int16Array) {
+    let read = 0;
+    while (read < samples.length) {
+      const n = Math.min(
+        samples.length - read,
+        this.chunkSize - this.pendingOffset,
+      );
+      this.pending.set(samples.subarray(read, read + n), this.pendingOffset);
+      this.pendingOffset += n;
+      read += n;
+      if (this.pendingOffset === this.chunkSize) {
+        this.onChunk(this.pending.slice());
+        this.pendingOffset = 0;
+      }
+    }
+  }
+}
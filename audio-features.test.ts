@@ -0,0 +1,223 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {describe, expect, it} from 'vitest';
+import {
+  FeatureExtractor,
+  OnsetDetector,
+  bandEdges,
+  bandLevels,
+  estimatePitch,
+  normalizeDb,
+  rms,
+  spectralCentroid,
+  spectralFlux,
+} from './audio-features';
+
+const SAMPLE_RATE = 16000;
+
+function sine(hz: number, length: number, amplitude = 0.5) {
+  const out = new Float32Array(length);
+  for (let i = 0; i < length; i++) {
+    out[i] = amplitude * Math.sin((2 * Math.PI * hz * i) / SAMPLE_RATE);
+  }
+  return out;
+}
+
+/** Uniform white noise from a fixed seed, so runs are repeatable. */
+function noise(length: number, amplitude = 0.5, seed = 1) {
+  const out = new Float32Array(length);
+  let state = seed;
+  for (let i = 0; i < length; i++) {
+    state = (state * 1664525 + 1013904223) >>> 0;
+    out[i] = amplitude * ((state / 2 ** 32) * 2 - 1);
+  }
+  return out;
+}
+
+/**
+ * Magnitude spectrum in dB of a Blackman-windowed frame, as an
+ * AnalyserNode without smoothing reports it.
+ */
+function spectrumDb(samples: Float32Array) {
+  const n = samples.length;
+  const out = new Float32Array(n / 2);
+  const windowed = samples.map(
+    (x, i) =>
+      x *
+      (0.42 -
+        0.5 * Math.cos((2 * Math.PI * i) / n) +
+        0.08 * Math.cos((4 * Math.PI * i) / n)),
+  );
+  for (let k = 0; k < out.length; k++) {
+    let re = 0;
+    let im = 0;
+    for (let i = 0; i < n; i++) {
+      const angle = (-2 * Math.PI * k * i) / n;
+      re += windowed[i] * Math.cos(angle);
+      im += windowed[i] * Math.sin(angle);
+    }
+    out[k] = 20 * Math.log10(Math.hypot(re, im) / n + 1e-12);
+  }
+  return out;
+}
+
+/** An audio node whose analyser sees whatever `signal` is set to. */
+function stubNode(fftSize: number) {
+  const source = {signal: new Float32Array(fftSize)};
+  const analyser = {
+    fftSize,
+    smoothingTimeConstant: 0,
+    minDecibels: -100,
+    maxDecibels: -30,
+    get frequencyBinCount() {
+      return this.fftSize / 2;
+    },
+    context: {sampleRate: SAMPLE_RATE},
+    getFloatFrequencyData: (out: Float32Array) =>
+      out.set(spectrumDb(source.signal)),
+    getFloatTimeDomainData: (out: Float32Array) => out.set(source.signal),
+  };
+  const node = {
+    context: {sampleRate: SAMPLE_RATE, createAnalyser: () => analyser},
+    connect() {},
+    disconnect() {},
+  };
+  return {node: node as unknown as AudioNode, source};
+}
+
+describe('rms', () => {
+  it('is the amplitude over root two for a sine', () => {
+    expect(rms(sine(440, 1600, 0.8))).toBeCloseTo(0.8 / Math.SQRT2, 3);
+  });
+
+  it('is the level of a constant signal and 0 for silence', () => {
+    expect(rms(new Float32Array(256).fill(0.25))).toBeCloseTo(0.25, 6);
+    expect(rms(new Float32Array(256))).toBe(0);
+  });
+});
+
+describe('estimatePitch', () => {
+  it.each([110, 220, 440])('finds the frequency of a %d Hz sine', (hz) => {
+    const {hz: found, confidence} = estimatePitch(
+      sine(hz, 1024),
+      SAMPLE_RATE,
+      60,
+      500,
+    );
+    expect(found).toBeGreaterThan(hz * 0.99);
+    expect(found).toBeLessThan(hz * 1.01);
+    expect(confidence).toBeGreaterThan(0.9);
+  });
+
+  it('finds no pitch in white noise', () => {
+    expect(estimatePitch(noise(1024), SAMPLE_RATE, 60, 500).hz).toBe(0);
+  });
+});
+
+describe('spectralCentroid', () => {
+  const binHz = SAMPLE_RATE / 1024;
+
+  it('lies at the frequency of a sine', () => {
+    const centroid = spectralCentroid(spectrumDb(sine(1000, 1024)), binHz);
+    expect(centroid).toBeGreaterThan(950);
+    expect(centroid).toBeLessThan(1050);
+  });
+
+  it('ignores energy outside the given range', () => {
+    const signal = sine(1000, 1024).map((x, i) => x + sine(3000, 1024)[i]);
+    const spectrum = spectrumDb(signal);
+    expect(spectralCentroid(spectrum, binHz)).toBeGreaterThan(1500);
+    const centroid = spectralCentroid(spectrum, binHz, 60, 2000);
+    expect(centroid).toBeGreaterThan(950);
+    expect(centroid).toBeLessThan(1050);
+  });
+});
+
+describe('bandLevels', () => {
+  const binHz = SAMPLE_RATE / 1024;
+  const edges = bandEdges(8, 60, 8000, 'log');
+  const levels = (samples: Float32Array) =>
+    bandLevels(
+      spectrumDb(samples).map((db) => normalizeDb(db, -100, -30)),
+      binHz,
+      edges,
+    );
+
+  it('is about even across bands for white noise', () => {
+    const bands = levels(noise(1024));
+    const max = Math.max(...bands);
+    const min = Math.min(...bands);
+    expect(min).toBeGreaterThan(0.3);
+    expect(max - min).toBeLessThan(0.25);
+  });
+
+  it('peaks in the band holding a tone', () => {
+    const bands = Array.from(levels(sine(1000, 1024)));
+    const band = edges.findIndex((edge, i) => edge <= 1000 && 1000 < edges[i + 1]);
+    expect(bands.indexOf(Math.max(...bands))).toBe(band);
+    expect(bands[0]).toBeLessThan(0.2);
+    expect(bands[7]).toBeLessThan(0.2);
+  });
+});
+
+describe('onset detection', () => {
+  it('fires once on a step from silence to a loud spectrum', () => {
+    const detector = new OnsetDetector();
+    const silent = new Float32Array(512);
+    const loud = new Float32Array(512).fill(0.8);
+    const onsets: boolean[] = [];
+    let previous = silent;
+    for (let frame = 0; frame < 40; frame++) {
+      const levels = frame < 20 ? silent : loud;
+      onsets.push(detector.process(spectralFlux(levels, previous)));
+      previous = levels;
+    }
+    expect(onsets.indexOf(true)).toBe(20);
+    expect(onsets.filter(Boolean)).toHaveLength(1);
+  });
+
+  it('does not fire on a steady signal', () => {
+    const detector = new OnsetDetector();
+    const levels = new Float32Array(512).fill(0.5);
+    for (let frame = 0; frame < 30; frame++) {
+      expect(detector.process(spectralFlux(levels, levels))).toBe(false);
+    }
+  });
+});
+
+describe('FeatureExtractor', () => {
+  it('reports level, pitch and centroid of a sine', () => {
+    const {node, source} = stubNode(1024);
+    const extractor = new FeatureExtractor(node, {fftSize: 1024});
+    source.signal = sine(220, 1024, 0.5);
+    const features = extractor.update();
+    expect(features.rms).toBeCloseTo(0.5 / Math.SQRT2, 2);
+    expect(features.pitchHz).toBeGreaterThan(218);
+    expect(features.pitchHz).toBeLessThan(222);
+    expect(features.centroidHz).toBeGreaterThan(200);
+    expect(features.centroidHz).toBeLessThan(300);
+    expect(features.low).toBeGreaterThan(features.high);
+  });
+
+  it('flags the onset when noise starts after silence', () => {
+    const {node, source} = stubNode(1024);
+    const extractor = new FeatureExtractor(node, {fftSize: 1024});
+    const onsets: boolean[] = [];
+    for (let frame = 0; frame < 12; frame++) {
+      source.signal =
+        frame < 8 ? new Float32Array(1024) : noise(1024, 0.5, frame);
+      onsets.push(extractor.update().onset);
+    }
+    expect(onsets.indexOf(true)).toBe(8);
+    expect(onsets.filter(Boolean)).toHaveLength(1);
+  });
+
+  it('reports no pitch and no level for silence', () => {
+    const {node} = stubNode(1024);
+    const features = new FeatureExtractor(node, {fftSize: 1024}).update();
+    expect(features.rms).toBe(0);
+    expect(features.pitchHz).toBe(0);
+  });
+});
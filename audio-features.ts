@@ -0,0 +1,372 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export type BandScale = 'mel' | 'log';
+
+export interface FeatureOptions {
+  /** Analyser FFT size, a power of two from 32 to 32768. */
+  fftSize: number;
+  /** Analyser smoothing between frames, 0 to 1. */
+  smoothingTimeConstant: number;
+  /** Number of bands in `AudioFeatures.bands`. */
+  bands: number;
+  bandScale: BandScale;
+  /** Frequency range covered by the bands and the centroid. */
+  minFrequency: number;
+  maxFrequency: number;
+  /** Levels mapped to 0 and 1. */
+  minDecibels: number;
+  maxDecibels: number;
+  /** Pitch search range. Pitch detection is skipped when `maxPitch` is 0. */
+  minPitch: number;
+  maxPitch: number;
+}
+
+export const DEFAULT_FEATURE_OPTIONS: FeatureOptions = {
+  fftSize: 1024,
+  smoothingTimeConstant: 0.8,
+  bands: 8,
+  bandScale: 'mel',
+  minFrequency: 60,
+  maxFrequency: 8000,
+  minDecibels: -100,
+  maxDecibels: -30,
+  minPitch: 60,
+  maxPitch: 500,
+};
+
+/** Features of one analysis frame. Values without a unit are 0 to 1. */
+export interface AudioFeatures {
+  /** Root mean square of the waveform. */
+  rms: number;
+  /** Level per band, lowest band first. */
+  bands: Float32Array;
+  /** Averages of the lower, middle and upper third of the bands. */
+  low: number;
+  mid: number;
+  high: number;
+  /** Spectral centroid, and its position on a log scale of the range. */
+  centroidHz: number;
+  centroid: number;
+  /** Rise in level across the spectrum since the previous frame. */
+  flux: number;
+  /** Whether the flux peaked well above its recent average. */
+  onset: boolean;
+  /** Fundamental frequency, or 0 when no pitch was found. */
+  pitchHz: number;
+  pitchConfidence: number;
+}
+
+/** Frames of flux history the onset threshold is computed over. */
+const ONSET_HISTORY = 43;
+/** Frames after an onset in which no other onset is reported. */
+const ONSET_REFRACTORY = 6;
+/** Flux below this is never an onset, however quiet the recent past. */
+const MIN_ONSET_FLUX = 0.02;
+/** Waveforms quieter than this are not searched for a pitch. */
+const MIN_PITCH_RMS = 0.01;
+/** Threshold of the YIN cumulative mean normalized difference. */
+const YIN_THRESHOLD = 0.15;
+
+export function emptyFeatures(
+  bands = DEFAULT_FEATURE_OPTIONS.bands,
+): AudioFeatures {
+  return {
+    rms: 0,
+    bands: new Float32Array(bands),
+    low: 0,
+    mid: 0,
+    high: 0,
+    centroidHz: 0,
+    centroid: 0,
+    flux: 0,
+    onset: false,
+    pitchHz: 0,
+    pitchConfidence: 0,
+  };
+}
+
+function hzToMel(hz: number) {
+  return 2595 * Math.log10(1 + hz / 700);
+}
+
+function melToHz(mel: number) {
+  return 700 * (10 ** (mel / 2595) - 1);
+}
+
+/** `count + 1` band edges in Hz, evenly spaced on the given scale. */
+export function bandEdges(
+  count: number,
+  minHz: number,
+  maxHz: number,
+  scale: BandScale,
+): number[] {
+  const edges: number[] = [];
+  for (let i = 0; i <= count; i++) {
+    const t = i / count;
+    edges.push(
+      scale === 'mel'
+        ? melToHz(hzToMel(minHz) + t * (hzToMel(maxHz) - hzToMel(minHz)))
+        : minHz * (maxHz / minHz) ** t,
+    );
+  }
+  return edges;
+}
+
+/** Maps a level in dB to 0..1 between `minDb` and `maxDb`. */
+export function normalizeDb(db: number, minDb: number, maxDb: number) {
+  return Math.min(1, Math.max(0, (db - minDb) / (maxDb - minDb)));
+}
+
+export function rms(samples: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) sum += samples[i] * samples[i];
+  return samples.length ? Math.sqrt(sum / samples.length) : 0;
+}
+
+/**
+ * Mean normalized level of the bins in each band. A band narrower than a
+ * bin takes the bin its centre falls in.
+ */
+export function bandLevels(
+  levels: Float32Array,
+  binHz: number,
+  edges: number[],
+): Float32Array {
+  const out = new Float32Array(edges.length - 1);
+  for (let b = 0; b < out.length; b++) {
+    const from = Math.max(0, Math.floor(edges[b] / binHz));
+    const to = Math.min(levels.length, Math.ceil(edges[b + 1] / binHz));
+    if (to <= from) {
+      const centre = Math.round((edges[b] + edges[b + 1]) / 2 / binHz);
+      out[b] = levels[Math.min(levels.length - 1, centre)] ?? 0;
+      continue;
+    }
+    let sum = 0;
+    for (let i = from; i < to; i++) sum += levels[i];
+    out[b] = sum / (to - from);
+  }
+  return out;
+}
+
+/**
+ * Amplitude-weighted mean frequency of a spectrum given in dB, over the
+ * bins from `minHz` to `maxHz`.
+ */
+export function spectralCentroid(
+  spectrumDb: Float32Array,
+  binHz: number,
+  minHz = 0,
+  maxHz = Infinity,
+) {
+  const from = Math.max(0, Math.ceil(minHz / binHz));
+  const to = Math.min(spectrumDb.length - 1, Math.floor(maxHz / binHz));
+  let weighted = 0;
+  let total = 0;
+  for (let i = from; i <= to; i++) {
+    const amplitude = 10 ** (spectrumDb[i] / 20);
+    weighted += i * binHz * amplitude;
+    total += amplitude;
+  }
+  return total > 0 ? weighted / total : 0;
+}
+
+/** Mean rise of normalized bin levels between two frames. */
+export function spectralFlux(levels: Float32Array, previous: Float32Array) {
+  let flux = 0;
+  for (let i = 0; i < levels.length; i++) {
+    flux += Math.max(0, levels[i] - (previous[i] ?? 0));
+  }
+  return levels.length ? flux / levels.length : 0;
+}
+
+/**
+ * Estimates the fundamental frequency with the YIN method. Returns 0 Hz when
+ * no period in the range is clear enough.
+ */
+export function estimatePitch(
+  samples: Float32Array,
+  sampleRate: number,
+  minHz: number,
+  maxHz: number,
+): {hz: number; confidence: number} {
+  const minLag = Math.max(2, Math.floor(sampleRate / maxHz));
+  const maxLag = Math.min(
+    Math.floor(samples.length / 2),
+    Math.ceil(sampleRate / minHz),
+  );
+  if (maxHz <= 0 || maxLag <= minLag) return {hz: 0, confidence: 0};
+  const window = samples.length - maxLag;
+
+  // Cumulative mean normalized difference for each lag.
+  const cmnd = new Float32Array(maxLag + 1);
+  cmnd[0] = 1;
+  let runningSum = 0;
+  for (let lag = 1; lag <= maxLag; lag++) {
+    let d = 0;
+    for (let j = 0; j < window; j++) {
+      const delta = samples[j] - samples[j + lag];
+      d += delta * delta;
+    }
+    runningSum += d;
+    cmnd[lag] = runningSum > 0 ? (d * lag) / runningSum : 1;
+  }
+
+  let lag = -1;
+  for (let t = minLag; t <= maxLag; t++) {
+    if (cmnd[t] < YIN_THRESHOLD) {
+      while (t + 1 <= maxLag && cmnd[t + 1] < cmnd[t]) t++;
+      lag = t;
+      break;
+    }
+  }
+  if (lag < 0) return {hz: 0, confidence: 0};
+
+  // Parabolic interpolation around the minimum for sub-sample accuracy.
+  let refined = lag;
+  if (lag > minLag && lag < maxLag) {
+    const a = cmnd[lag - 1];
+    const b = cmnd[lag];
+    const c = cmnd[lag + 1];
+    const denominator = a - 2 * b + c;
+    if (denominator !== 0) refined = lag + (a - c) / (2 * denominator);
+  }
+  return {hz: sampleRate / refined, confidence: 1 - cmnd[lag]};
+}
+
+/**
+ * Flags frames whose flux stands out from the recent past: above the mean
+ * of the last frames by 1.5 standard deviations.
+ */
+export class OnsetDetector {
+  private history: number[] = [];
+  private cooldown = 0;
+
+  process(flux: number): boolean {
+    const n = this.history.length;
+    const mean = n ? this.history.reduce((a, b) => a + b, 0) / n : 0;
+    const variance = n
+      ? this.history.reduce((sum, f) => sum + (f - mean) ** 2, 0) / n
+      : 0;
+    this.history.push(flux);
+    if (this.history.length > ONSET_HISTORY) this.history.shift();
+
+    if (this.cooldown > 0) {
+      this.cooldown--;
+      return false;
+    }
+    const onset =
+      flux > MIN_ONSET_FLUX && flux > mean + 1.5 * Math.sqrt(variance);
+    if (onset) this.cooldown = ONSET_REFRACTORY;
+    return onset;
+  }
+
+  reset() {
+    this.history = [];
+    this.cooldown = 0;
+  }
+}
+
+/**
+ * Extracts named spectral features from an audio node, one frame per
+ * `update()` call, for visualizers to consume instead of raw FFT bins.
+ */
+export class FeatureExtractor {
+  private readonly options: FeatureOptions;
+  private readonly analyser: AnalyserNode;
+  private readonly spectrum: Float32Array;
+  private readonly waveform: Float32Array;
+  private levels: Float32Array;
+  private previousLevels: Float32Array;
+  private readonly edges: number[];
+  private readonly onsets = new OnsetDetector();
+  private current: AudioFeatures;
+
+  constructor(
+    private readonly node: AudioNode,
+    options: Partial<FeatureOptions> = {},
+  ) {
+    this.options = {...DEFAULT_FEATURE_OPTIONS, ...options};
+    this.analyser = node.context.createAnalyser();
+    this.analyser.fftSize = this.options.fftSize;
+    this.analyser.smoothingTimeConstant = this.options.smoothingTimeConstant;
+    this.analyser.minDecibels = this.options.minDecibels;
+    this.analyser.maxDecibels = this.options.maxDecibels;
+    node.connect(this.analyser);
+
+    this.spectrum = new Float32Array(this.analyser.frequencyBinCount);
+    this.waveform = new Float32Array(this.analyser.fftSize);
+    this.levels = new Float32Array(this.spectrum.length);
+    this.previousLevels = new Float32Array(this.spectrum.length);
+    const nyquist = node.context.sampleRate / 2;
+    this.edges = bandEdges(
+      this.options.bands,
+      Math.min(this.options.minFrequency, nyquist),
+      Math.min(this.options.maxFrequency, nyquist),
+      this.options.bandScale,
+    );
+    this.current = emptyFeatures(this.options.bands);
+  }
+
+  /** Features of the last `update()`. */
+  get features(): AudioFeatures {
+    return this.current;
+  }
+
+  update(): AudioFeatures {
+    const {minDecibels, maxDecibels, minPitch, maxPitch} = this.options;
+    const sampleRate = this.analyser.context.sampleRate;
+    const binHz = sampleRate / this.analyser.fftSize;
+    this.analyser.getFloatFrequencyData(this.spectrum);
+    this.analyser.getFloatTimeDomainData(this.waveform);
+
+    [this.levels, this.previousLevels] = [this.previousLevels, this.levels];
+    for (let i = 0; i < this.spectrum.length; i++) {
+      this.levels[i] = normalizeDb(this.spectrum[i], minDecibels, maxDecibels);
+    }
+
+    const bands = bandLevels(this.levels, binHz, this.edges);
+    const third = Math.max(1, Math.floor(bands.length / 3));
+    const mean = (from: number, to: number) => {
+      const slice = bands.subarray(from, Math.max(from + 1, to));
+      return slice.reduce((a, b) => a + b, 0) / slice.length;
+    };
+
+    const lowHz = this.edges[0];
+    const highHz = this.edges[this.edges.length - 1];
+    const centroidHz = spectralCentroid(this.spectrum, binHz, lowHz, highHz);
+    const centroid =
+      centroidHz > lowHz
+        ? Math.min(1, Math.log(centroidHz / lowHz) / Math.log(highHz / lowHz))
+        : 0;
+
+    const flux = spectralFlux(this.levels, this.previousLevels);
+    const level = rms(this.waveform);
+    const pitch =
+      level >= MIN_PITCH_RMS
+        ? estimatePitch(this.waveform, sampleRate, minPitch, maxPitch)
+        : {hz: 0, confidence: 0};
+
+    this.current = {
+      rms: level,
+      bands,
+      low: mean(0, third),
+      mid: mean(third, bands.length - third),
+      high: mean(bands.length - third, bands.length),
+      centroidHz,
+      centroid,
+      flux,
+      onset: this.onsets.process(flux),
+      pitchHz: pitch.hz,
+      pitchConfidence: pitch.confidence,
+    };
+    return this.current;
+  }
+
+  /** Detaches the analyser from the node it listens to. */
+  disconnect() {
+    this.node.disconnect(this.analyser);
+  }
+}
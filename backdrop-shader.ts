@@ -19,6 +19,10 @@ out vec4 fragmentColor;
 
 uniform vec2 resolution;
 uniform float rand;
+uniform vec3 inner;
+uniform vec3 outer;
+uniform float falloff;
+uniform float grain;
 
 void main() {
   float aspectRatio = resolution.x / resolution.y; 
@@ -28,12 +32,9 @@ void main() {
   vUv -= .5;
   vUv.x *= aspectRatio;
 
-  float factor = 4.;
-  float d = factor * length(vUv);
-  vec3 from = vec3(3.) / 255.;
-  vec3 to = vec3(16., 12., 20.) / 2550.;
+  float d = falloff * length(vUv);
 
-  fragmentColor = vec4(mix(from, to, d) + .005 * noise, 1.);
+  fragmentColor = vec4(mix(inner, outer, d) + grain * noise, 1.);
 }
 `;
 
@@ -0,0 +1,31 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {Type} from '@google/genai';
+import type {ToolDefinition} from './tools';
+
+/** Lets the model answer questions about the user's current date and time. */
+export const getCurrentTime: ToolDefinition<{timeZone?: string}> = {
+  name: 'get_current_time',
+  description:
+    "Returns the current date and time, in the user's time zone unless another IANA time zone is given.",
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      timeZone: {
+        type: Type.STRING,
+        description: 'IANA time zone, for example "Europe/Paris".',
+      },
+    },
+  },
+  handler: ({timeZone}) => {
+    const zone =
+      timeZone || Intl.DateTimeFormat().resolvedOptions().timeZone;
+    return {
+      timeZone: zone,
+      localTime: new Date().toLocaleString('en-US', {timeZone: zone}),
+      iso: new Date().toISOString(),
+    };
+  },
+};
@@ -0,0 +1,186 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type {Analyser} from './analyser';
+
+export type CanvasMode = 'bars' | 'oscilloscope' | 'spectrogram' | 'radial';
+
+/**
+ * Draws one frame of a 2D visualizer from updated analysers. The context is
+ * scaled so that `width` and `height` are in CSS pixels.
+ */
+export interface CanvasRenderer {
+  /** FFT size the analysers are created with. */
+  fftSize: number;
+  /** Whether the previous frame is kept, e.g. to scroll it. */
+  persistent: boolean;
+  draw(
+    ctx: CanvasRenderingContext2D,
+    input: Analyser,
+    output: Analyser,
+    width: number,
+    height: number,
+  ): void;
+}
+
+const BACKGROUND = '#1f2937';
+const INPUT_COLORS = ['#FB5F5F', '#E78686', '#D16BA5'];
+const OUTPUT_COLORS = ['#ef4444', '#10b981', '#3b82f6'];
+/** Width of the column the spectrogram adds each frame, in pixels. */
+const SPECTROGRAM_COLUMN = 2;
+
+/** Vertical gradient through `colors`, top first. */
+function gradient(
+  ctx: CanvasRenderingContext2D,
+  colors: string[],
+  height: number,
+) {
+  const g = ctx.createLinearGradient(0, 0, 0, height);
+  colors.forEach((color, i) => g.addColorStop(i / (colors.length - 1), color));
+  return g;
+}
+
+function drawBars(
+  ctx: CanvasRenderingContext2D,
+  analyser: Analyser,
+  width: number,
+  height: number,
+) {
+  const barWidth = width / analyser.data.length;
+  for (let i = 0; i < analyser.data.length; i++) {
+    const barHeight = analyser.data[i] * (height / 255);
+    ctx.fillRect(i * barWidth, height - barHeight, barWidth, barHeight);
+  }
+}
+
+const bars: CanvasRenderer = {
+  fftSize: 32,
+  persistent: false,
+  draw(ctx, input, output, width, height) {
+    ctx.fillStyle = BACKGROUND;
+    ctx.fillRect(0, 0, width, height);
+    ctx.fillStyle = gradient(ctx, INPUT_COLORS, height);
+    drawBars(ctx, input, width, height);
+    ctx.globalCompositeOperation = 'lighter';
+    ctx.fillStyle = gradient(ctx, OUTPUT_COLORS, height);
+    drawBars(ctx, output, width, height);
+  },
+};
+
+function drawWave(
+  ctx: CanvasRenderingContext2D,
+  analyser: Analyser,
+  width: number,
+  height: number,
+) {
+  const samples = analyser.waveform;
+  const step = width / (samples.length - 1);
+  ctx.beginPath();
+  for (let i = 0; i < samples.length; i++) {
+    const y = (samples[i] / 255) * height;
+    if (i === 0) ctx.moveTo(0, y);
+    else ctx.lineTo(i * step, y);
+  }
+  ctx.stroke();
+}
+
+const oscilloscope: CanvasRenderer = {
+  fftSize: 1024,
+  persistent: false,
+  draw(ctx, input, output, width, height) {
+    ctx.fillStyle = BACKGROUND;
+    ctx.fillRect(0, 0, width, height);
+    ctx.lineWidth = 2;
+    ctx.globalCompositeOperation = 'lighter';
+    ctx.strokeStyle = INPUT_COLORS[0];
+    drawWave(ctx, input, width, height);
+    ctx.strokeStyle = OUTPUT_COLORS[1];
+    drawWave(ctx, output, width, height);
+  },
+};
+
+/** One spectrogram column for `analyser`, low frequencies at the bottom. */
+function drawColumn(
+  ctx: CanvasRenderingContext2D,
+  analyser: Analyser,
+  hue: number,
+  x: number,
+  top: number,
+  height: number,
+) {
+  const bins = analyser.data;
+  const binHeight = height / bins.length;
+  for (let i = 0; i < bins.length; i++) {
+    const level = bins[i] / 255;
+    ctx.fillStyle = `hsl(${hue}, 80%, ${Math.round(level * 60)}%)`;
+    ctx.fillRect(
+      x,
+      top + height - (i + 1) * binHeight,
+      SPECTROGRAM_COLUMN,
+      Math.ceil(binHeight),
+    );
+  }
+}
+
+/** Input in the upper half, output in the lower, scrolling to the left. */
+const spectrogram: CanvasRenderer = {
+  fftSize: 256,
+  persistent: true,
+  draw(ctx, input, output, width, height) {
+    ctx.drawImage(ctx.canvas, -SPECTROGRAM_COLUMN, 0, width, height);
+    const x = width - SPECTROGRAM_COLUMN;
+    drawColumn(ctx, input, 340, x, 0, height / 2);
+    drawColumn(ctx, output, 160, x, height / 2, height / 2);
+  },
+};
+
+/**
+ * Spokes around a circle, mirrored left to right: output bins point
+ * outwards, input bins inwards.
+ */
+function drawSpokes(
+  ctx: CanvasRenderingContext2D,
+  analyser: Analyser,
+  radius: number,
+  length: number,
+  direction: 1 | -1,
+) {
+  const bins = analyser.data;
+  ctx.beginPath();
+  for (let i = 0; i < bins.length; i++) {
+    const r = radius + direction * (bins[i] / 255) * length;
+    for (const side of [1, -1]) {
+      const angle = side * ((i + 0.5) / bins.length) * Math.PI - Math.PI / 2;
+      ctx.moveTo(radius * Math.cos(angle), radius * Math.sin(angle));
+      ctx.lineTo(r * Math.cos(angle), r * Math.sin(angle));
+    }
+  }
+  ctx.stroke();
+}
+
+const radial: CanvasRenderer = {
+  fftSize: 128,
+  persistent: false,
+  draw(ctx, input, output, width, height) {
+    ctx.fillStyle = BACKGROUND;
+    ctx.fillRect(0, 0, width, height);
+    const size = Math.min(width, height);
+    const radius = size * 0.25;
+    ctx.translate(width / 2, height / 2);
+    ctx.lineWidth = Math.max(1, (Math.PI * radius) / output.data.length - 1);
+    ctx.lineCap = 'round';
+    ctx.globalCompositeOperation = 'lighter';
+    ctx.strokeStyle = INPUT_COLORS[2];
+    drawSpokes(ctx, input, radius, radius * 0.8, -1);
+    ctx.strokeStyle = OUTPUT_COLORS[2];
+    drawSpokes(ctx, output, radius, size / 2 - radius, 1);
+  },
+};
+
+export const CANVAS_RENDERERS: Record<CanvasMode, CanvasRenderer> = {
+  bars,
+  oscilloscope,
+  spectrogram,
+  radial,
+};
@@ -0,0 +1,49 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/**
+ * AudioWorklet processor that converts microphone samples to 16-bit PCM and
+ * batches them into fixed-size chunks off the main thread. Each full chunk is
+ * posted back through the node's port as a transferable ArrayBuffer.
+ *
+ * The source is kept as a string and loaded through a Blob URL so it does not
+ * depend on how the bundler handles worklet entry points.
+ */
+const name = 'pcm-capture-processor';
+
+const source = `
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const opts = options.processorOptions || {};
+    this.chunk = new Int16Array(Math.max(1, opts.chunkSize | 0 || 512));
+    this.offset = 0;
+  }
+
+  flush() {
+    if (this.offset === 0) return;
+    const out = this.chunk.slice(0, this.offset);
+    this.port.postMessage(out.buffer, [out.buffer]);
+    this.offset = 0;
+  }
+
+  process(inputs) {
+    const input = inputs[0];
+    if (input && input.length > 0) {
+      const samples = input[0];
+      for (let i = 0; i < samples.length; i++) {
+        // convert float32 -1 to 1 to int16 -32768 to 32767
+        const s = Math.max(-1, Math.min(1, samples[i]));
+        this.chunk[this.offset++] = s < 0 ? s * 32768 : s * 32767;
+        if (this.offset === this.chunk.length) this.flush();
+      }
+    }
+    return true;
+  }
+}
+
+registerProcessor('${name}', PcmCaptureProcessor);
+`;
+
+export {name, source};
@@ -0,0 +1,109 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import {LitElement, css, html} from 'lit';
+import {customElement, property, state} from 'lit/decorators.js';
+
+/**
+ * Text box for typing into a live session. Enter sends, Shift+Enter adds a
+ * line. Sending fires a cancelable `chat-submit` event with the text; the
+ * draft is cleared unless a listener calls `preventDefault()`.
+ */
+@customElement('gdm-chat-input')
+export class GdmChatInput extends LitElement {
+  @property({type: Boolean, reflect: true}) disabled = false;
+  @property() placeholder = 'Type a message...';
+
+  @state() private draft = '';
+
+  static styles = css`
+    :host {
+      display: flex;
+      gap: 8px;
+      padding: 8px 16px 12px;
+      border-top: 1px solid rgba(255, 255, 255, 0.2);
+    }
+
+    textarea {
+      flex: 1;
+      min-height: 20px;
+      max-height: 120px;
+      resize: none;
+      font: inherit;
+      color: white;
+      background: rgba(255, 255, 255, 0.1);
+      border: 1px solid rgba(255, 255, 255, 0.2);
+      border-radius: 6px;
+      padding: 6px;
+    }
+
+    button {
+      font: inherit;
+      color: white;
+      background: rgba(255, 255, 255, 0.1);
+      border: 1px solid rgba(255, 255, 255, 0.2);
+      border-radius: 8px;
+      padding: 6px 12px;
+      cursor: pointer;
+
+      &:hover {
+        background: rgba(255, 255, 255, 0.2);
+      }
+    }
+
+    button:disabled,
+    textarea:disabled {
+      opacity: 0.5;
+      cursor: not-allowed;
+    }
+  `;
+
+  private submit() {
+    const text = this.draft.trim();
+    if (!text || this.disabled) return;
+    const accepted = this.dispatchEvent(
+      new CustomEvent<string>('chat-submit', {
+        detail: text,
+        bubbles: true,
+        composed: true,
+        cancelable: true,
+      }),
+    );
+    if (accepted) this.draft = '';
+  }
+
+  private onKeyDown(e: KeyboardEvent) {
+    if (e.key === 'Enter' && !e.shiftKey && !e.isComposing) {
+      e.preventDefault();
+      this.submit();
+    }
+  }
+
+  protected render() {
+    return html`
+      <textarea
+        rows="1"
+        aria-label="Message"
+        placeholder=${this.placeholder}
+        .value=${this.draft}
+        ?disabled=${this.disabled}
+        @input=${(e: Event) =>
+          (this.draft = (e.target as HTMLTextAreaElement).value)}
+        @keydown=${this.onKeyDown}></textarea>
+      <button
+        @click=${this.submit}
+        ?disabled=${this.disabled || !this.draft.trim()}>
+        Send
+      </button>
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'gdm-chat-input': GdmChatInput;
+  }
+}
@@ -0,0 +1,271 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type {
+  LiveSendRealtimeInputParameters,
+  LiveServerMessage,
+} from '@google/genai';
+import {afterEach, beforeEach, describe, expect, it, vi} from 'vitest';
+import {
+  ConnectionManager,
+  DEFAULT_BACKOFF_POLICY,
+  StateChange,
+  backoffDelay,
+} from './connection';
+import type {LiveSession, SessionCallbacks} from './transport';
+
+/** One session handed out by the fake transport. */
+interface FakeSession extends LiveSession {
+  callbacks: SessionCallbacks;
+  sent: LiveSendRealtimeInputParameters[];
+  closed: boolean;
+}
+
+/**
+ * Stands in for a transport: every connect attempt waits until the test
+ * resolves or rejects it.
+ */
+class FakeTransport {
+  sessions: FakeSession[] = [];
+  private pending: {accept: () => void; refuse: (e: Error) => void}[] = [];
+
+  readonly connect = (callbacks: SessionCallbacks) => {
+    const session: FakeSession = {
+      callbacks,
+      sent: [],
+      closed: false,
+      sendRealtimeInput(params) {
+        this.sent.push(params);
+      },
+      sendClientContent() {},
+      sendToolResponse() {},
+      close() {
+        this.closed = true;
+      },
+    };
+    this.sessions.push(session);
+    return new Promise<LiveSession>((resolve, reject) => {
+      this.pending.push({accept: () => resolve(session), refuse: reject});
+    });
+  };
+
+  /** Lets the oldest waiting attempt succeed. */
+  async accept() {
+    this.pending.shift()!.accept();
+    await Promise.resolve();
+    await Promise.resolve();
+  }
+
+  async refuse(message = 'refused') {
+    this.pending.shift()!.refuse(new Error(message));
+    await Promise.resolve();
+    await Promise.resolve();
+  }
+
+  get latest() {
+    return this.sessions[this.sessions.length - 1];
+  }
+}
+
+function drop(session: FakeSession, code = 1006, reason = '') {
+  session.callbacks.onclose({code, reason} as CloseEvent);
+}
+
+/** 100 ms of 16 kHz PCM: 3200 bytes, so 4267 base64 characters. */
+function audio(tag: string): LiveSendRealtimeInputParameters {
+  return {
+    media: {mimeType: 'audio/pcm;rate=16000', data: tag.padEnd(4267, 'A')},
+  };
+}
+
+describe('backoffDelay', () => {
+  it('stays within the jitter bounds of the exponential delay', () => {
+    const policy = DEFAULT_BACKOFF_POLICY;
+    for (let attempt = 1; attempt <= 10; attempt++) {
+      const base = Math.min(
+        policy.maxDelayMs,
+        policy.initialDelayMs * policy.multiplier ** (attempt - 1),
+      );
+      expect(backoffDelay(attempt, policy, () => 0)).toBe(
+        Math.round(base * (1 - policy.jitter)),
+      );
+      expect(backoffDelay(attempt, policy, () => 1)).toBe(base);
+      for (let i = 0; i < 20; i++) {
+        const delay = backoffDelay(attempt, policy);
+        expect(delay).toBeGreaterThanOrEqual(
+          Math.floor(base * (1 - policy.jitter)),
+        );
+        expect(delay).toBeLessThanOrEqual(base);
+      }
+    }
+  });
+});
+
+describe('ConnectionManager', () => {
+  let transport: FakeTransport;
+  let connection: ConnectionManager;
+  let changes: StateChange[];
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    transport = new FakeTransport();
+    connection = new ConnectionManager(transport.connect, {
+      policy: {maxAttempts: 4},
+    });
+    changes = [];
+    connection.onStateChange = (change) => changes.push(change);
+  });
+
+  afterEach(() => {
+    connection.close();
+    vi.useRealTimers();
+  });
+
+  it('opens, and reconnects after drops with delays inside the jitter bounds', async () => {
+    connection.connect();
+    await transport.accept();
+    expect(connection.state).toBe('open');
+
+    const policy = {...DEFAULT_BACKOFF_POLICY, maxAttempts: 4};
+    for (let attempt = 1; attempt <= 3; attempt++) {
+      if (attempt === 1) {
+        drop(transport.latest);
+      } else {
+        await transport.refuse();
+      }
+      const change = changes[changes.length - 1];
+      expect(change.state).toBe('reconnecting');
+      expect(change.attempt).toBe(attempt);
+      const base = policy.initialDelayMs * policy.multiplier ** (attempt - 1);
+      expect(change.delayMs).toBeGreaterThanOrEqual(
+        Math.floor(base * (1 - policy.jitter)),
+      );
+      expect(change.delayMs).toBeLessThanOrEqual(base);
+
+      const attempts = transport.sessions.length;
+      vi.advanceTimersByTime(change.delayMs! - 1);
+      expect(transport.sessions.length).toBe(attempts);
+      vi.advanceTimersByTime(1);
+      expect(transport.sessions.length).toBe(attempts + 1);
+    }
+
+    await transport.accept();
+    expect(connection.state).toBe('open');
+  });
+
+  it('gives up after the retry budget, and at once on a non-retryable close', async () => {
+    connection.connect();
+    await transport.refuse();
+    for (let attempt = 1; attempt <= 4; attempt++) {
+      vi.runOnlyPendingTimers();
+      await transport.refuse();
+    }
+    expect(connection.state).toBe('failed');
+
+    connection.connect();
+    await transport.accept();
+    drop(transport.latest, 1008, 'API key not valid');
+    expect(connection.state).toBe('failed');
+    expect(changes[changes.length - 1].reason).toBe('API key not valid');
+  });
+
+  it('ignores callbacks from a session of an earlier attempt', async () => {
+    const messages: LiveServerMessage[] = [];
+    connection.onMessage = (m) => messages.push(m);
+    connection.connect();
+    await transport.accept();
+    const stale = transport.latest;
+    const message = {setupComplete: {}} as LiveServerMessage;
+
+    drop(stale);
+    vi.runOnlyPendingTimers();
+    await transport.accept();
+    expect(connection.state).toBe('open');
+    const states = changes.length;
+
+    stale.callbacks.onmessage(message);
+    stale.callbacks.onerror({message: 'late'} as ErrorEvent);
+    drop(stale);
+    expect(messages).toHaveLength(0);
+    expect(changes).toHaveLength(states);
+    expect(connection.state).toBe('open');
+
+    transport.latest.callbacks.onmessage(message);
+    expect(messages).toHaveLength(1);
+  });
+
+  it('closes a session that opens after the connection was closed', async () => {
+    connection.connect();
+    connection.close();
+    await transport.accept();
+    expect(transport.latest.closed).toBe(true);
+    expect(connection.state).toBe('idle');
+  });
+
+  it('buffers input while reconnecting and flushes it in order on reopen', async () => {
+    connection.connect();
+    expect(connection.sendRealtimeInput(audio('a'))).toBe(true);
+    await transport.accept();
+    expect(transport.latest.sent.map((p) => p.media!.data![0])).toEqual(['a']);
+
+    drop(transport.latest);
+    expect(connection.sendRealtimeInput(audio('b'))).toBe(true);
+    expect(connection.sendRealtimeInput(audio('c'))).toBe(true);
+    expect(connection.bufferedAudioMs).toBeCloseTo(200, 0);
+
+    vi.runOnlyPendingTimers();
+    await transport.accept();
+    expect(transport.latest.sent.map((p) => p.media!.data![0])).toEqual([
+      'b',
+      'c',
+    ]);
+    expect(connection.bufferedAudioMs).toBe(0);
+  });
+
+  it('drops the oldest buffered audio beyond the limit', async () => {
+    connection = new ConnectionManager(transport.connect, {maxBufferedMs: 250});
+    connection.connect();
+    for (const tag of ['a', 'b', 'c', 'd']) connection.sendRealtimeInput(audio(tag));
+    expect(connection.bufferedAudioMs).toBeCloseTo(200, 0);
+    await transport.accept();
+    expect(transport.latest.sent.map((p) => p.media!.data![0])).toEqual([
+      'c',
+      'd',
+    ]);
+  });
+
+  it('counts traffic, estimating audio from the size of its data', async () => {
+    const traffic: [string, number][] = [];
+    connection.onTraffic = (direction, bytes) => traffic.push([direction, bytes]);
+    connection.connect();
+    await transport.accept();
+    connection.sendRealtimeInput(audio('a'));
+    const message = {
+      serverContent: {
+        modelTurn: {
+          parts: [{inlineData: {mimeType: 'audio/pcm', data: 'A'.repeat(8000)}}],
+        },
+      },
+    } as LiveServerMessage;
+    transport.latest.callbacks.onmessage(message);
+    const text = {serverContent: {turnComplete: true}} as LiveServerMessage;
+    transport.latest.callbacks.onmessage(text);
+    expect(traffic).toEqual([
+      ['sent', 4267 + 100],
+      ['received', 8000 + 100],
+      ['received', JSON.stringify(text).length],
+    ]);
+  });
+
+  it('drops input when idle or failed', async () => {
+    expect(connection.sendRealtimeInput(audio('a'))).toBe(false);
+
+    connection.connect();
+    await transport.accept();
+    drop(transport.latest, 1008, 'API key not valid');
+    expect(connection.state).toBe('failed');
+    expect(connection.sendRealtimeInput(audio('b'))).toBe(false);
+    expect(connection.bufferedAudioMs).toBe(0);
+  });
+});
@@ -0,0 +1,374 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type {
+  LiveSendClientContentParameters,
+  LiveSendRealtimeInputParameters,
+  LiveSendToolResponseParameters,
+  LiveServerMessage,
+} from '@google/genai';
+import {createLogger} from './logger';
+import type {LiveSession, SessionCallbacks} from './transport';
+
+const log = createLogger('connection');
+
+/**
+ * Connection lifecycle of a live session.
+ *
+ * idle -> connecting -> open -> reconnecting -> open ...
+ * Any state returns to idle on close(); reconnecting ends in failed once the
+ * retry budget is spent or the server closed with a non-retryable code.
+ */
+export type ConnectionState =
+  | 'idle'
+  | 'connecting'
+  | 'open'
+  | 'reconnecting'
+  | 'failed';
+
+/**
+ * Opens one session. Resolves once the session can accept input; callbacks
+ * may fire before that.
+ */
+export type SessionFactory = (callbacks: SessionCallbacks) => Promise<LiveSession>;
+
+export interface BackoffPolicy {
+  /** Delay before the first retry. */
+  initialDelayMs: number;
+  /** Upper bound for a single delay, before jitter. */
+  maxDelayMs: number;
+  /** Growth factor between attempts. */
+  multiplier: number;
+  /** Fraction of the delay that is randomized, 0 to 1. */
+  jitter: number;
+  /** Retries after a drop before giving up. */
+  maxAttempts: number;
+}
+
+export const DEFAULT_BACKOFF_POLICY: BackoffPolicy = {
+  initialDelayMs: 500,
+  maxDelayMs: 15000,
+  multiplier: 2,
+  jitter: 0.5,
+  maxAttempts: 8,
+};
+
+/**
+ * Close codes that will not get better by retrying: 1007 (invalid payload,
+ * e.g. an unsupported config) and 1008 (policy violation, e.g. a bad key).
+ */
+const NON_RETRYABLE_CLOSE_CODES = new Set([1007, 1008]);
+
+/** Returns the delay before retry number `attempt` (1-based). */
+export function backoffDelay(
+  attempt: number,
+  policy: BackoffPolicy = DEFAULT_BACKOFF_POLICY,
+  random: () => number = Math.random,
+): number {
+  const exp = policy.initialDelayMs * policy.multiplier ** (attempt - 1);
+  const base = Math.min(policy.maxDelayMs, exp);
+  const jitter = Math.min(1, Math.max(0, policy.jitter));
+  return Math.round(base * (1 - jitter + jitter * random()));
+}
+
+/** Playback length of a PCM blob such as `audio/pcm;rate=16000`, else 0. */
+function pcmDurationMs(params: LiveSendRealtimeInputParameters): number {
+  const {data, mimeType} = params.media ?? {};
+  const rate = /^audio\/pcm;rate=(\d+)/.exec(mimeType ?? '');
+  if (!rate || !data) return 0;
+  const bytes = (data.length * 3) / 4;
+  return (bytes / 2 / Number(rate[1])) * 1000;
+}
+
+/** Allowance for the JSON around a chunk of media: keys and mime type. */
+const MEDIA_ENVELOPE_BYTES = 100;
+
+/**
+ * Serialized size of a payload. Media is counted by its base64 data, which
+ * is nearly all of it, so audio is not serialized a second time to count it.
+ */
+function payloadSize(
+  payload:
+    | LiveSendRealtimeInputParameters
+    | LiveSendClientContentParameters
+    | LiveSendToolResponseParameters
+    | LiveServerMessage,
+): number {
+  let media = 0;
+  if ('media' in payload) {
+    media += payload.media?.data?.length ?? 0;
+  }
+  if ('serverContent' in payload) {
+    for (const part of payload.serverContent?.modelTurn?.parts ?? []) {
+      media += part.inlineData?.data?.length ?? 0;
+    }
+  }
+  return media
+    ? media + MEDIA_ENVELOPE_BYTES
+    : JSON.stringify(payload).length;
+}
+
+export interface StateChange {
+  state: ConnectionState;
+  previous: ConnectionState;
+  /** Retry number while reconnecting, otherwise 0. */
+  attempt: number;
+  /** Wait before the next attempt, set when entering reconnecting. */
+  delayMs?: number;
+  /** Why the state changed, if known. */
+  reason?: string;
+}
+
+export interface ConnectionOptions {
+  policy?: Partial<BackoffPolicy>;
+  /** Audio kept while not open, flushed on reconnect. Oldest is dropped. */
+  maxBufferedMs?: number;
+  /** Hard cap on buffered inputs of any kind. */
+  maxBufferedInputs?: number;
+  /** Decides whether a close should be retried. */
+  isRetryable?: (e: CloseEvent) => boolean;
+  /** Injected for tests. */
+  random?: () => number;
+}
+
+/**
+ * Keeps a live session connected. Drops are retried with jittered
+ * exponential backoff, and realtime input sent while the connection is down
+ * is buffered and replayed once it is back.
+ */
+export class ConnectionManager {
+  onStateChange: (change: StateChange) => void = () => {};
+  onMessage: (message: LiveServerMessage) => void = () => {};
+  onError: (e: ErrorEvent) => void = () => {};
+  /**
+   * Called with the size of everything sent and received, as serialized
+   * JSON; media is estimated from its data. Buffered input counts once it
+   * is actually sent.
+   */
+  onTraffic: (direction: 'sent' | 'received', bytes: number) => void =
+    () => {};
+
+  private readonly policy: BackoffPolicy;
+  private readonly maxBufferedMs: number;
+  private readonly maxBufferedInputs: number;
+  private readonly isRetryable: (e: CloseEvent) => boolean;
+  private readonly random: () => number;
+
+  private currentState: ConnectionState = 'idle';
+  private session: LiveSession | null = null;
+  /** Bumped on every attempt so callbacks of stale sessions are ignored. */
+  private generation = 0;
+  private attempt = 0;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private buffered: LiveSendRealtimeInputParameters[] = [];
+  private bufferedMs = 0;
+
+  constructor(
+    private readonly connectSession: SessionFactory,
+    options: ConnectionOptions = {},
+  ) {
+    this.policy = {...DEFAULT_BACKOFF_POLICY, ...options.policy};
+    this.maxBufferedMs = options.maxBufferedMs ?? 5000;
+    this.maxBufferedInputs = options.maxBufferedInputs ?? 1000;
+    this.isRetryable =
+      options.isRetryable ?? ((e) => !NON_RETRYABLE_CLOSE_CODES.has(e.code));
+    this.random = options.random ?? Math.random;
+  }
+
+  get state(): ConnectionState {
+    return this.currentState;
+  }
+
+  get isOpen() {
+    return this.currentState === 'open';
+  }
+
+  /** Starts connecting. Does nothing unless idle or failed. */
+  connect() {
+    if (this.currentState !== 'idle' && this.currentState !== 'failed') {
+      return;
+    }
+    this.attempt = 0;
+    this.setState('connecting', {});
+    void this.open();
+  }
+
+  /** Closes the session on purpose. No reconnect follows. */
+  close() {
+    this.generation++;
+    this.clearRetryTimer();
+    this.clearBuffer();
+    const session = this.session;
+    this.session = null;
+    if (session) {
+      try {
+        session.close();
+      } catch (e) {
+        log.warn('Error closing session:', e);
+      }
+    }
+    this.attempt = 0;
+    if (this.currentState !== 'idle') {
+      this.setState('idle', {reason: 'Closed by client'});
+    }
+  }
+
+  /**
+   * Sends realtime input, or buffers it while connecting or reconnecting.
+   * Returns false if the input was dropped because there is no connection.
+   */
+  sendRealtimeInput(params: LiveSendRealtimeInputParameters): boolean {
+    if (this.currentState === 'open' && this.session) {
+      this.session.sendRealtimeInput(params);
+      this.countTraffic('sent', params);
+      return true;
+    }
+    if (
+      this.currentState !== 'connecting' &&
+      this.currentState !== 'reconnecting'
+    ) {
+      return false;
+    }
+    this.buffered.push(params);
+    this.bufferedMs += pcmDurationMs(params);
+    while (
+      this.buffered.length > this.maxBufferedInputs ||
+      (this.bufferedMs > this.maxBufferedMs && this.buffered.length > 1)
+    ) {
+      this.bufferedMs -= pcmDurationMs(this.buffered.shift()!);
+    }
+    return true;
+  }
+
+  /**
+   * Sends a client content turn, such as typed text. Not buffered: a typed
+   * message should not arrive seconds later in a different context. Returns
+   * false if not open, so the caller can keep the draft.
+   */
+  sendClientContent(params: LiveSendClientContentParameters): boolean {
+    if (this.currentState !== 'open' || !this.session) return false;
+    this.session.sendClientContent(params);
+    this.countTraffic('sent', params);
+    return true;
+  }
+
+  /**
+   * Answers tool calls. Responses are not buffered: calls made on a session
+   * that dropped are void on the next one. Returns false if not open.
+   */
+  sendToolResponse(params: LiveSendToolResponseParameters): boolean {
+    if (this.currentState !== 'open' || !this.session) return false;
+    this.session.sendToolResponse(params);
+    this.countTraffic('sent', params);
+    return true;
+  }
+
+  /** Milliseconds of audio waiting for the connection to come back. */
+  get bufferedAudioMs() {
+    return this.bufferedMs;
+  }
+
+  private async open() {
+    const generation = ++this.generation;
+    let session: LiveSession;
+    try {
+      session = await this.connectSession({
+        onopen: () => {},
+        onmessage: (message) => {
+          if (generation !== this.generation) return;
+          this.countTraffic('received', message);
+          this.onMessage(message);
+        },
+        onerror: (e) => {
+          if (generation === this.generation) this.onError(e);
+        },
+        onclose: (e) => {
+          const reason = e.reason || `Code ${e.code}`;
+          this.handleDrop(generation, reason, this.isRetryable(e));
+        },
+      });
+    } catch (e) {
+      this.handleDrop(generation, (e as Error).message ?? String(e), true);
+      return;
+    }
+
+    if (generation !== this.generation) {
+      // Closed or dropped while connecting; this session is no longer wanted.
+      try {
+        session.close();
+      } catch {
+        // Already closed.
+      }
+      return;
+    }
+
+    this.session = session;
+    this.attempt = 0;
+    this.setState('open', {});
+    this.flushBuffer();
+  }
+
+  private handleDrop(generation: number, reason: string, retryable: boolean) {
+    if (generation !== this.generation || this.currentState === 'idle') {
+      return;
+    }
+    this.generation++;
+    this.session = null;
+
+    if (!retryable || this.attempt >= this.policy.maxAttempts) {
+      this.clearBuffer();
+      this.setState('failed', {reason});
+      return;
+    }
+
+    this.attempt++;
+    const delayMs = backoffDelay(this.attempt, this.policy, this.random);
+    this.setState('reconnecting', {delayMs, reason});
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      void this.open();
+    }, delayMs);
+  }
+
+  private flushBuffer() {
+    const pending = this.buffered;
+    this.clearBuffer();
+    for (const params of pending) {
+      if (!this.sendRealtimeInput(params)) break;
+    }
+  }
+
+  private countTraffic(
+    direction: 'sent' | 'received',
+    payload: Parameters<typeof payloadSize>[0],
+  ) {
+    this.onTraffic(direction, payloadSize(payload));
+  }
+
+  private clearBuffer() {
+    this.buffered = [];
+    this.bufferedMs = 0;
+  }
+
+  private clearRetryTimer() {
+    if (this.retryTimer !== null) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+  }
+
+  private setState(
+    state: ConnectionState,
+    change: Pick<StateChange, 'delayMs' | 'reason'>,
+  ) {
+    const previous = this.currentState;
+    this.currentState = state;
+    this.onStateChange({
+      state,
+      previous,
+      attempt: state === 'reconnecting' ? this.attempt : 0,
+      ...change,
+    });
+  }
+}
@@ -0,0 +1,295 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import {LitElement, PropertyValues, css, html} from 'lit';
+import {customElement, property, state} from 'lit/decorators.js';
+import {repeat} from 'lit/directives/repeat.js';
+import type {ConversationSummary} from './conversation-store';
+
+/**
+ * Drawer listing saved conversations. Fires `conversation-search` with the
+ * query as it is typed, `conversation-resume`, `conversation-delete` and
+ * `conversation-download` with an id, `conversation-rename` with
+ * `{id, title}`, `conversations-export`, `conversations-import` with the
+ * chosen file, and `conversations-close`.
+ */
+@customElement('gdm-conversation-list')
+export class GdmConversationList extends LitElement {
+  @property({attribute: false}) conversations: ConversationSummary[] = [];
+  /** Id of the conversation in progress, marked in the list. */
+  @property({attribute: false}) activeId: string | null = null;
+  @property({type: Boolean, reflect: true}) open = false;
+
+  @state() private query = '';
+  @state() private editingId: string | null = null;
+  @state() private confirmingDeleteId: string | null = null;
+
+  static styles = css`
+    :host {
+      position: absolute;
+      top: 0;
+      left: 0;
+      bottom: 0;
+      width: min(360px, 90vw);
+      z-index: 20;
+      display: flex;
+      flex-direction: column;
+      gap: 12px;
+      box-sizing: border-box;
+      padding: 16px;
+      color: white;
+      font-size: 14px;
+      background: rgba(16, 12, 20, 0.95);
+      border-right: 1px solid rgba(255, 255, 255, 0.2);
+      transform: translateX(-100%);
+      transition: transform 0.2s ease;
+    }
+
+    :host([open]) {
+      transform: none;
+    }
+
+    header {
+      display: flex;
+      align-items: center;
+      justify-content: space-between;
+    }
+
+    h2 {
+      margin: 0;
+      font-size: 16px;
+      font-weight: 500;
+    }
+
+    input {
+      font: inherit;
+      color: inherit;
+      background: rgba(255, 255, 255, 0.1);
+      border: 1px solid rgba(255, 255, 255, 0.2);
+      border-radius: 6px;
+      padding: 6px;
+    }
+
+    ol {
+      flex: 1;
+      overflow-y: auto;
+      margin: 0;
+      padding: 0;
+      list-style: none;
+    }
+
+    li {
+      padding: 8px;
+      border-radius: 8px;
+      border: 1px solid transparent;
+    }
+
+    li.active {
+      border-color: rgba(96, 165, 250, 0.6);
+    }
+
+    .title {
+      font-weight: 500;
+      overflow-wrap: anywhere;
+    }
+
+    .meta,
+    .preview,
+    .empty {
+      font-size: 12px;
+      opacity: 0.7;
+    }
+
+    .preview {
+      margin: 2px 0 6px;
+      overflow: hidden;
+      text-overflow: ellipsis;
+      white-space: nowrap;
+    }
+
+    .actions {
+      display: flex;
+      flex-wrap: wrap;
+      gap: 6px;
+    }
+
+    button {
+      font: inherit;
+      font-size: 12px;
+      color: white;
+      background: rgba(255, 255, 255, 0.1);
+      border: 1px solid rgba(255, 255, 255, 0.2);
+      border-radius: 6px;
+      padding: 4px 10px;
+      cursor: pointer;
+
+      &:hover {
+        background: rgba(255, 255, 255, 0.2);
+      }
+    }
+
+    button.danger {
+      background: rgba(239, 68, 68, 0.4);
+    }
+
+    button:disabled {
+      opacity: 0.5;
+      cursor: not-allowed;
+    }
+
+    footer {
+      display: flex;
+      gap: 8px;
+    }
+
+    input[type='file'] {
+      display: none;
+    }
+  `;
+
+  private fire<T>(type: string, detail?: T) {
+    this.dispatchEvent(
+      new CustomEvent<T>(type, {detail, bubbles: true, composed: true}),
+    );
+  }
+
+  private search(query: string) {
+    this.query = query;
+    this.fire('conversation-search', query);
+  }
+
+  private commitRename(id: string, input: HTMLInputElement) {
+    // Enter commits, then the input blurs as it goes away.
+    if (this.editingId !== id) return;
+    const title = input.value.trim();
+    this.editingId = null;
+    if (title) this.fire('conversation-rename', {id, title});
+  }
+
+  private onRenameKey(id: string, e: KeyboardEvent) {
+    if (e.key === 'Enter') {
+      this.commitRename(id, e.target as HTMLInputElement);
+    } else if (e.key === 'Escape') {
+      this.editingId = null;
+    }
+  }
+
+  private importFile(e: Event) {
+    const input = e.target as HTMLInputElement;
+    const file = input.files?.[0];
+    input.value = '';
+    if (file) this.fire('conversations-import', file);
+  }
+
+  private renderTitle(c: ConversationSummary) {
+    if (this.editingId !== c.id) {
+      return html`<div class="title">${c.title}</div>`;
+    }
+    return html`<input
+      aria-label="Conversation title"
+      .value=${c.title}
+      @keydown=${(e: KeyboardEvent) => this.onRenameKey(c.id, e)}
+      @blur=${(e: Event) =>
+        this.commitRename(c.id, e.target as HTMLInputElement)} />`;
+  }
+
+  private renderActions(c: ConversationSummary) {
+    if (this.confirmingDeleteId === c.id) {
+      return html`
+        <button
+          class="danger"
+          @click=${() => {
+            this.confirmingDeleteId = null;
+            this.fire('conversation-delete', c.id);
+          }}>
+          Delete for good
+        </button>
+        <button @click=${() => (this.confirmingDeleteId = null)}>Keep</button>
+      `;
+    }
+    return html`
+      <button
+        ?disabled=${c.id === this.activeId}
+        @click=${() => this.fire('conversation-resume', c.id)}>
+        Resume
+      </button>
+      <button @click=${() => (this.editingId = c.id)}>Rename</button>
+      ${c.hasRecording
+        ? html`<button
+            @click=${() => this.fire('conversation-download', c.id)}>
+            Audio
+          </button>`
+        : ''}
+      <button @click=${() => (this.confirmingDeleteId = c.id)}>Delete</button>
+    `;
+  }
+
+  protected updated(changed: PropertyValues) {
+    if (changed.has('editingId')) {
+      const input = this.shadowRoot!.querySelector<HTMLInputElement>('li input');
+      input?.focus();
+      input?.select();
+    }
+  }
+
+  protected render() {
+    return html`
+      <header>
+        <h2>Conversations</h2>
+        <button @click=${() => this.fire('conversations-close')}>Close</button>
+      </header>
+      <input
+        type="search"
+        aria-label="Search conversations"
+        placeholder="Search titles and transcripts"
+        .value=${this.query}
+        @input=${(e: Event) =>
+          this.search((e.target as HTMLInputElement).value)} />
+      <ol>
+        ${repeat(
+          this.conversations,
+          (c) => c.id,
+          (c) => html`<li class=${c.id === this.activeId ? 'active' : ''}>
+            ${this.renderTitle(c)}
+            <div class="meta">
+              ${new Date(c.updatedAt).toLocaleString()} · ${c.turnCount}
+              turns
+            </div>
+            ${c.preview ? html`<div class="preview">${c.preview}</div>` : ''}
+            <div class="actions">${this.renderActions(c)}</div>
+          </li>`,
+        )}
+      </ol>
+      ${this.conversations.length
+        ? ''
+        : html`<p class="empty">
+            ${this.query ? 'No conversations match.' : 'No saved conversations yet.'}
+          </p>`}
+      <footer>
+        <button @click=${() => this.fire('conversations-export')}>
+          Export all
+        </button>
+        <button
+          @click=${() =>
+            this.shadowRoot!.querySelector<HTMLInputElement>(
+              'input[type=file]',
+            )!.click()}>
+          Import
+        </button>
+        <input
+          type="file"
+          accept="application/json,.json"
+          @change=${this.importFile} />
+      </footer>
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'gdm-conversation-list': GdmConversationList;
+  }
+}
@@ -0,0 +1,348 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type {Content} from '@google/genai';
+import type {RecordingLayout} from './session-recorder';
+import {SessionSettings, sanitizeSettings} from './settings';
+import type {TranscriptTurn} from './transcript';
+import {decode, encode} from './utils';
+
+export interface StoredFile {
+  name: string;
+  blob: Blob;
+}
+
+/** A past or ongoing conversation. */
+export interface Conversation {
+  id: string;
+  title: string;
+  /** Epoch milliseconds. */
+  createdAt: number;
+  updatedAt: number;
+  /** Settings the conversation was last held with. */
+  settings: SessionSettings;
+  turns: TranscriptTurn[];
+}
+
+/** What the conversation list shows, without the full transcript. */
+export interface ConversationSummary {
+  id: string;
+  title: string;
+  createdAt: number;
+  updatedAt: number;
+  turnCount: number;
+  /** Start of the first turn. */
+  preview: string;
+  hasRecording: boolean;
+}
+
+interface StoredRecording {
+  id: string;
+  layout: RecordingLayout;
+  files: StoredFile[];
+}
+
+/** Identifies files written by `exportAll`. */
+const EXPORT_FORMAT = 'gdm-live-audio-conversations';
+const EXPORT_VERSION = 1;
+
+const DB_NAME = 'gdm-live-audio';
+const DB_VERSION = 1;
+const CONVERSATIONS = 'conversations';
+const RECORDINGS = 'recordings';
+const PREVIEW_LENGTH = 80;
+
+/** Resolves with the result of an IndexedDB request. */
+function done<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/** Resolves once a transaction has committed. */
+function committed(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+/** A title from the first thing said, or the date if nothing was. */
+export function defaultTitle(
+  conversation: Pick<Conversation, 'turns' | 'createdAt'>,
+): string {
+  const first = conversation.turns.find((t) => t.text.trim());
+  if (!first) return new Date(conversation.createdAt).toLocaleString();
+  const text = first.text.trim().replace(/\s+/g, ' ');
+  return text.length > 40 ? `${text.slice(0, 40)}…` : text;
+}
+
+function summarize(
+  conversation: Conversation,
+  recordings: Set<string>,
+): ConversationSummary {
+  const first = conversation.turns.find((t) => t.text.trim());
+  return {
+    id: conversation.id,
+    title: conversation.title,
+    createdAt: conversation.createdAt,
+    updatedAt: conversation.updatedAt,
+    turnCount: conversation.turns.length,
+    preview: first?.text.trim().slice(0, PREVIEW_LENGTH) ?? '',
+    hasRecording: recordings.has(conversation.id),
+  };
+}
+
+const isNumber = (value: unknown) =>
+  typeof value === 'number' && Number.isFinite(value);
+const isOptional = (value: unknown, check: (value: unknown) => boolean) =>
+  value === undefined || check(value);
+
+function isTurn(value: unknown): value is TranscriptTurn {
+  const turn = value as Partial<Record<keyof TranscriptTurn, unknown>>;
+  return (
+    typeof turn === 'object' &&
+    turn !== null &&
+    isNumber(turn.id) &&
+    (turn.speaker === 'user' || turn.speaker === 'model') &&
+    typeof turn.text === 'string' &&
+    isNumber(turn.startedAt) &&
+    isOptional(turn.endedAt, isNumber) &&
+    typeof turn.interrupted === 'boolean' &&
+    isOptional(turn.heardText, (v) => typeof v === 'string') &&
+    isOptional(turn.typed, (v) => typeof v === 'boolean')
+  );
+}
+
+/** Whether an imported entry has every field the store and list rely on. */
+function isConversation(value: unknown): value is Conversation {
+  const conversation = value as Partial<Record<keyof Conversation, unknown>>;
+  return (
+    typeof conversation === 'object' &&
+    conversation !== null &&
+    typeof conversation.id === 'string' &&
+    typeof conversation.title === 'string' &&
+    isNumber(conversation.createdAt) &&
+    isNumber(conversation.updatedAt) &&
+    Array.isArray(conversation.turns) &&
+    conversation.turns.every(isTurn)
+  );
+}
+
+/** A recording as `exportAll` writes it. */
+interface ExportedRecording {
+  id: string;
+  layout: RecordingLayout;
+  files: {name: string; type: string; data: string}[];
+}
+
+function isExportedRecording(value: unknown): value is ExportedRecording {
+  const recording = value as Partial<Record<keyof ExportedRecording, unknown>>;
+  return (
+    typeof recording === 'object' &&
+    recording !== null &&
+    typeof recording.id === 'string' &&
+    (recording.layout === 'stereo' || recording.layout === 'two-track') &&
+    Array.isArray(recording.files) &&
+    recording.files.every(
+      (f) =>
+        typeof f?.name === 'string' &&
+        typeof f.type === 'string' &&
+        typeof f.data === 'string',
+    )
+  );
+}
+
+/**
+ * The transcript as client content turns, to give a new session the context
+ * of a resumed conversation. Of interrupted model turns only what the user
+ * heard is included.
+ */
+export function toContextTurns(turns: readonly TranscriptTurn[]): Content[] {
+  return turns
+    .map((turn) => ({
+      role: turn.speaker,
+      text: (turn.interrupted ? (turn.heardText ?? turn.text) : turn.text)
+        .trim(),
+    }))
+    .filter((turn) => turn.text)
+    .map(({role, text}) => ({role, parts: [{text}]}));
+}
+
+/**
+ * Conversations kept in IndexedDB: metadata, transcript and a settings
+ * snapshot in one store, optional audio recordings in another so listing
+ * conversations does not load them.
+ */
+export class ConversationStore {
+  private db: Promise<IDBDatabase> | null = null;
+
+  private open(): Promise<IDBDatabase> {
+    this.db ??= new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        db.createObjectStore(CONVERSATIONS, {keyPath: 'id'});
+        db.createObjectStore(RECORDINGS, {keyPath: 'id'});
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+      request.onblocked = () =>
+        reject(new Error('The conversation store is open in another tab.'));
+    });
+    // Let the next call try again if opening failed.
+    this.db.catch(() => (this.db = null));
+    return this.db;
+  }
+
+  /** Conversations whose title or transcript contains `query`, newest first. */
+  async list(query = ''): Promise<ConversationSummary[]> {
+    const db = await this.open();
+    const tx = db.transaction([CONVERSATIONS, RECORDINGS], 'readonly');
+    const [conversations, recordingIds] = await Promise.all([
+      done<Conversation[]>(tx.objectStore(CONVERSATIONS).getAll()),
+      done(tx.objectStore(RECORDINGS).getAllKeys()),
+    ]);
+    const recordings = new Set(recordingIds as string[]);
+    const needle = query.trim().toLowerCase();
+    return conversations
+      .filter(
+        (c) =>
+          !needle ||
+          c.title.toLowerCase().includes(needle) ||
+          c.turns.some((t) => t.text.toLowerCase().includes(needle)),
+      )
+      .sort((a, b) => b.updatedAt - a.updatedAt)
+      .map((c) => summarize(c, recordings));
+  }
+
+  async get(id: string): Promise<Conversation | undefined> {
+    const db = await this.open();
+    const store = db.transaction(CONVERSATIONS).objectStore(CONVERSATIONS);
+    return done<Conversation | undefined>(store.get(id));
+  }
+
+  async save(conversation: Conversation) {
+    const db = await this.open();
+    const tx = db.transaction(CONVERSATIONS, 'readwrite');
+    tx.objectStore(CONVERSATIONS).put(conversation);
+    await committed(tx);
+  }
+
+  async rename(id: string, title: string) {
+    const db = await this.open();
+    const tx = db.transaction(CONVERSATIONS, 'readwrite');
+    const store = tx.objectStore(CONVERSATIONS);
+    const conversation = await done<Conversation | undefined>(store.get(id));
+    if (conversation) store.put({...conversation, title});
+    await committed(tx);
+  }
+
+  /** Deletes a conversation and its recording. */
+  async delete(id: string) {
+    const db = await this.open();
+    const tx = db.transaction([CONVERSATIONS, RECORDINGS], 'readwrite');
+    tx.objectStore(CONVERSATIONS).delete(id);
+    tx.objectStore(RECORDINGS).delete(id);
+    await committed(tx);
+  }
+
+  /** Stores the audio of a conversation, replacing any saved before. */
+  async saveRecording(
+    id: string,
+    layout: RecordingLayout,
+    files: StoredFile[],
+  ) {
+    const db = await this.open();
+    const tx = db.transaction(RECORDINGS, 'readwrite');
+    tx.objectStore(RECORDINGS).put({id, layout, files} as StoredRecording);
+    await committed(tx);
+  }
+
+  async getRecording(id: string): Promise<StoredFile[]> {
+    const db = await this.open();
+    const store = db.transaction(RECORDINGS).objectStore(RECORDINGS);
+    const recording = await done<StoredRecording | undefined>(store.get(id));
+    return recording?.files ?? [];
+  }
+
+  /** The whole store as a JSON file, recordings included as base64. */
+  async exportAll(): Promise<Blob> {
+    const db = await this.open();
+    const tx = db.transaction([CONVERSATIONS, RECORDINGS], 'readonly');
+    const [conversations, recordings] = await Promise.all([
+      done<Conversation[]>(tx.objectStore(CONVERSATIONS).getAll()),
+      done<StoredRecording[]>(tx.objectStore(RECORDINGS).getAll()),
+    ]);
+    const encodedRecordings = await Promise.all(
+      recordings.map(async (recording) => ({
+        id: recording.id,
+        layout: recording.layout,
+        files: await Promise.all(
+          recording.files.map(async (file) => ({
+            name: file.name,
+            type: file.blob.type,
+            data: encode(new Uint8Array(await file.blob.arrayBuffer())),
+          })),
+        ),
+      })),
+    );
+    const payload = {
+      format: EXPORT_FORMAT,
+      version: EXPORT_VERSION,
+      exportedAt: new Date().toISOString(),
+      conversations,
+      recordings: encodedRecordings,
+    };
+    return new Blob([JSON.stringify(payload)], {type: 'application/json'});
+  }
+
+  /**
+   * Adds the conversations of a file written by `exportAll`, replacing those
+   * with the same id. Entries with missing or mistyped fields are skipped.
+   * Returns how many were imported.
+   */
+  async importAll(file: Blob): Promise<number> {
+    let payload;
+    try {
+      payload = JSON.parse(await file.text());
+    } catch {
+      throw new Error('The file is not valid JSON.');
+    }
+    if (payload?.format !== EXPORT_FORMAT) {
+      throw new Error('The file is not a conversation export.');
+    }
+    if (payload.version > EXPORT_VERSION) {
+      throw new Error('The file was exported by a newer version of the app.');
+    }
+    const list = (value: unknown): unknown[] =>
+      Array.isArray(value) ? value : [];
+    const conversations: Conversation[] = list(payload.conversations)
+      .filter(isConversation)
+      .map((c) => ({...c, settings: sanitizeSettings(c.settings)}));
+    const recordings: StoredRecording[] = list(payload.recordings)
+      .filter(isExportedRecording)
+      .map((r) => ({
+        id: r.id,
+        layout: r.layout,
+        files: r.files.map((f) => ({
+          name: f.name,
+          blob: new Blob([decode(f.data)], {type: f.type}),
+        })),
+      }));
+
+    const db = await this.open();
+    const tx = db.transaction([CONVERSATIONS, RECORDINGS], 'readwrite');
+    for (const conversation of conversations) {
+      tx.objectStore(CONVERSATIONS).put(conversation);
+    }
+    for (const recording of recordings) {
+      tx.objectStore(RECORDINGS).put(recording);
+    }
+    await committed(tx);
+    return conversations.length;
+  }
+}
@@ -0,0 +1,110 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import {LitElement, css, html} from 'lit';
+import {customElement, property} from 'lit/decorators.js';
+import type {AudioDevice, DeviceSelection} from './devices';
+
+/**
+ * Microphone and speaker pickers. Fires `device-change` with the new
+ * selection as soon as either changes.
+ */
+@customElement('gdm-device-picker')
+export class GdmDevicePicker extends LitElement {
+  @property({attribute: false}) inputs: AudioDevice[] = [];
+  @property({attribute: false}) outputs: AudioDevice[] = [];
+  @property({attribute: false}) selection: DeviceSelection = {
+    inputId: '',
+    outputId: '',
+  };
+  /** False where the browser cannot route output to a chosen device. */
+  @property({type: Boolean, attribute: 'output-supported'})
+  outputSupported = true;
+
+  static styles = css`
+    :host {
+      display: block;
+    }
+
+    label {
+      display: flex;
+      flex-direction: column;
+      gap: 4px;
+      margin: 0 0 12px;
+    }
+
+    select {
+      font: inherit;
+      color: inherit;
+      background: rgba(255, 255, 255, 0.1);
+      border: 1px solid rgba(255, 255, 255, 0.2);
+      border-radius: 6px;
+      padding: 6px;
+    }
+
+    option {
+      color: black;
+    }
+
+    .hint {
+      font-size: 12px;
+      opacity: 0.7;
+    }
+  `;
+
+  private select(key: keyof DeviceSelection, deviceId: string) {
+    this.dispatchEvent(
+      new CustomEvent<DeviceSelection>('device-change', {
+        detail: {...this.selection, [key]: deviceId},
+        bubbles: true,
+        composed: true,
+      }),
+    );
+  }
+
+  private renderDeviceOptions(devices: AudioDevice[], selectedId: string) {
+    return html`
+      <option value="" ?selected=${selectedId === ''}>System default</option>
+      ${devices.map(
+        (d) =>
+          html`<option value=${d.deviceId} ?selected=${d.deviceId === selectedId}>
+            ${d.label}
+          </option>`,
+      )}
+    `;
+  }
+
+  protected render() {
+    return html`
+      <label>
+        Microphone
+        <select
+          @change=${(e: Event) =>
+            this.select('inputId', (e.target as HTMLSelectElement).value)}>
+          ${this.renderDeviceOptions(this.inputs, this.selection.inputId)}
+        </select>
+      </label>
+      <label>
+        Speaker
+        <select
+          ?disabled=${!this.outputSupported}
+          @change=${(e: Event) =>
+            this.select('outputId', (e.target as HTMLSelectElement).value)}>
+          ${this.renderDeviceOptions(this.outputs, this.selection.outputId)}
+        </select>
+        ${this.outputSupported
+          ? ''
+          : html`<span class="hint">This browser always plays through the system default.</span>`}
+      </label>
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'gdm-device-picker': GdmDevicePicker;
+  }
+}
@@ -0,0 +1,97 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type {BrowserProcessing} from './input-processing';
+import {createLogger} from './logger';
+
+const log = createLogger('devices');
+
+/** AudioContext.setSinkId is not in the DOM typings yet. */
+type SinkableAudioContext = AudioContext & {
+  setSinkId?: (sinkId: string) => Promise<void>;
+};
+
+export interface AudioDevice {
+  deviceId: string;
+  label: string;
+}
+
+export interface AudioDevices {
+  inputs: AudioDevice[];
+  outputs: AudioDevice[];
+}
+
+export interface DeviceSelection {
+  /** '' means the system default. */
+  inputId: string;
+  outputId: string;
+}
+
+const STORAGE_KEY = 'gdm-live-audio:devices';
+
+/**
+ * Lists microphones and speakers. Labels are only filled in once the page
+ * has microphone permission, so unlabeled devices get a numbered name.
+ */
+export async function listAudioDevices(): Promise<AudioDevices> {
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  const pick = (kind: MediaDeviceKind, fallback: string) =>
+    devices
+      .filter((d) => d.kind === kind && d.deviceId && d.deviceId !== 'default')
+      .map((d, i) => ({
+        deviceId: d.deviceId,
+        label: d.label || `${fallback} ${i + 1}`,
+      }));
+  return {
+    inputs: pick('audioinput', 'Microphone'),
+    outputs: pick('audiooutput', 'Speaker'),
+  };
+}
+
+/** Whether audio output can be routed to a chosen device in this browser. */
+export function supportsOutputSelection(context: AudioContext): boolean {
+  return typeof (context as SinkableAudioContext).setSinkId === 'function';
+}
+
+/** Routes everything `context` plays to the given output device. */
+export async function setOutputDevice(context: AudioContext, deviceId: string) {
+  const sinkable = context as SinkableAudioContext;
+  if (!sinkable.setSinkId) {
+    throw new Error('Choosing an output device is not supported in this browser.');
+  }
+  await sinkable.setSinkId(deviceId);
+}
+
+/**
+ * Microphone constraints for a device, or the default device for '', with
+ * the browser's own processing switched on or off as given.
+ */
+export function inputConstraints(
+  deviceId: string,
+  processing?: BrowserProcessing,
+): MediaTrackConstraints | true {
+  if (!deviceId && !processing) return true;
+  return {
+    ...(deviceId ? {deviceId: {exact: deviceId}} : {}),
+    ...processing,
+  };
+}
+
+export function loadDeviceSelection(): DeviceSelection {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (raw) return {inputId: '', outputId: '', ...JSON.parse(raw)};
+  } catch (e) {
+    log.warn('Could not read saved devices:', e);
+  }
+  return {inputId: '', outputId: ''};
+}
+
+export function saveDeviceSelection(selection: DeviceSelection) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(selection));
+  } catch (e) {
+    log.warn('Could not save devices:', e);
+  }
+}
@@ -0,0 +1,98 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export interface ElementSize {
+  /** CSS pixels. */
+  width: number;
+  height: number;
+  /** Device pixels per CSS pixel to render at, after any cap. */
+  pixelRatio: number;
+}
+
+/**
+ * Reports an element's size and the pixel ratio to render it at: on start,
+ * whenever the element resizes, and whenever the device pixel ratio
+ * changes, e.g. on browser zoom or when the window moves to another screen.
+ */
+export class ElementSizer {
+  /** Called with the new size; never called with the same size twice. */
+  onResize: (size: ElementSize) => void = () => {};
+
+  private observer: ResizeObserver | null = null;
+  private ratioQuery: MediaQueryList | null = null;
+  private current: ElementSize = {width: 0, height: 0, pixelRatio: 1};
+  private cap: number;
+  private readonly onRatioChange = () => {
+    this.watchPixelRatio();
+    this.update();
+  };
+
+  constructor(
+    private readonly element: Element,
+    maxPixelRatio = Infinity,
+  ) {
+    this.cap = maxPixelRatio;
+  }
+
+  get size(): ElementSize {
+    return this.current;
+  }
+
+  /** Upper bound on `pixelRatio`, to trade sharpness for speed. */
+  set maxPixelRatio(ratio: number) {
+    this.cap = ratio;
+    if (this.observer) this.update();
+  }
+
+  get maxPixelRatio() {
+    return this.cap;
+  }
+
+  start() {
+    if (this.observer) return;
+    this.observer = new ResizeObserver(() => this.update());
+    this.observer.observe(this.element);
+    this.watchPixelRatio();
+    this.update();
+  }
+
+  stop() {
+    this.observer?.disconnect();
+    this.observer = null;
+    this.ratioQuery?.removeEventListener('change', this.onRatioChange);
+    this.ratioQuery = null;
+    // Report again on the next start.
+    this.current = {width: 0, height: 0, pixelRatio: 1};
+  }
+
+  /** Listens for the ratio changing away from its current value. */
+  private watchPixelRatio() {
+    this.ratioQuery?.removeEventListener('change', this.onRatioChange);
+    this.ratioQuery = window.matchMedia(
+      `(resolution: ${window.devicePixelRatio}dppx)`,
+    );
+    this.ratioQuery.addEventListener('change', this.onRatioChange);
+  }
+
+  private update() {
+    const {width, height} = this.element.getBoundingClientRect();
+    const cap = this.cap > 0 ? this.cap : Infinity;
+    const size = {
+      width: Math.round(width),
+      height: Math.round(height),
+      pixelRatio: Math.min(window.devicePixelRatio || 1, cap),
+    };
+    const {current} = this;
+    if (
+      size.width === current.width &&
+      size.height === current.height &&
+      size.pixelRatio === current.pixelRatio
+    ) {
+      return;
+    }
+    this.current = size;
+    this.onResize(size);
+  }
+}
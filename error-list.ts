@@ -0,0 +1,159 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import {LitElement, css, html} from 'lit';
+import {customElement, property, state} from 'lit/decorators.js';
+import {repeat} from 'lit/directives/repeat.js';
+import {ErrorReport, RECOVERY_LABELS} from './errors';
+
+/**
+ * Errors that have not been resolved or dismissed, newest last, each with
+ * its recovery action. Fires `error-action` with the report when the action
+ * is chosen and `error-dismiss` with its id.
+ */
+@customElement('gdm-error-list')
+export class GdmErrorList extends LitElement {
+  @property({attribute: false}) errors: readonly ErrorReport[] = [];
+
+  /** Reports whose help text is expanded. */
+  @state() private helpShown = new Set<number>();
+
+  static styles = css`
+    :host {
+      display: block;
+      color: white;
+      font-size: 13px;
+    }
+
+    ul {
+      margin: 0;
+      padding: 0;
+      list-style: none;
+      display: flex;
+      flex-direction: column;
+      gap: 6px;
+    }
+
+    li {
+      padding: 8px 10px;
+      background-color: rgba(60, 10, 10, 0.85);
+      border: 1px solid rgba(239, 68, 68, 0.6);
+      border-radius: 8px;
+    }
+
+    .message {
+      display: flex;
+      align-items: flex-start;
+      gap: 8px;
+    }
+
+    .message span {
+      flex: 1;
+    }
+
+    .detail,
+    .help {
+      margin: 4px 0 0;
+      font-size: 12px;
+      opacity: 0.8;
+      overflow-wrap: anywhere;
+    }
+
+    .actions {
+      display: flex;
+      gap: 6px;
+      margin-top: 6px;
+    }
+
+    button {
+      font: inherit;
+      font-size: 12px;
+      color: white;
+      background: rgba(255, 255, 255, 0.1);
+      border: 1px solid rgba(255, 255, 255, 0.3);
+      border-radius: 6px;
+      padding: 3px 10px;
+      cursor: pointer;
+
+      &:hover {
+        background: rgba(255, 255, 255, 0.2);
+      }
+    }
+
+    button.dismiss {
+      border: none;
+      background: none;
+      padding: 0 4px;
+      font-size: 16px;
+      line-height: 1;
+    }
+  `;
+
+  private fire<T>(type: string, detail: T) {
+    this.dispatchEvent(
+      new CustomEvent<T>(type, {detail, bubbles: true, composed: true}),
+    );
+  }
+
+  private toggleHelp(id: number) {
+    const shown = new Set(this.helpShown);
+    if (!shown.delete(id)) shown.add(id);
+    this.helpShown = shown;
+  }
+
+  private renderError(report: ErrorReport) {
+    return html`<li>
+      <div class="message">
+        <span>
+          ${report.message}${report.count > 1 ? html` (×${report.count})` : ''}
+        </span>
+        <button
+          class="dismiss"
+          aria-label="Dismiss"
+          @click=${() => this.fire('error-dismiss', report.id)}>
+          ×
+        </button>
+      </div>
+      ${report.detail ? html`<p class="detail">${report.detail}</p>` : ''}
+      ${report.help && this.helpShown.has(report.id)
+        ? html`<p class="help">${report.help}</p>`
+        : ''}
+      ${report.action || report.help
+        ? html`<div class="actions">
+            ${report.action
+              ? html`<button @click=${() => this.fire('error-action', report)}>
+                  ${RECOVERY_LABELS[report.action]}
+                </button>`
+              : ''}
+            ${report.help
+              ? html`<button
+                  aria-expanded=${this.helpShown.has(report.id)}
+                  @click=${() => this.toggleHelp(report.id)}>
+                  How to fix
+                </button>`
+              : ''}
+          </div>`
+        : ''}
+    </li>`;
+  }
+
+  protected render() {
+    if (this.errors.length === 0) return html``;
+    return html`<ul role="alert" aria-label="Errors">
+      ${repeat(
+        this.errors,
+        (report) => report.id,
+        (report) => this.renderError(report),
+      )}
+    </ul>`;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'gdm-error-list': GdmErrorList;
+  }
+}
@@ -0,0 +1,162 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/** What went wrong, as far as the user can do something about it. */
+export type LiveErrorKind =
+  | 'permission-denied'
+  | 'no-device'
+  | 'audio-blocked'
+  | 'auth'
+  | 'quota'
+  | 'network'
+  | 'server-closed'
+  | 'decode'
+  | 'settings'
+  | 'storage'
+  | 'unknown';
+
+/** A way out offered next to an error. */
+export type RecoveryAction =
+  | 'retry-recording'
+  | 'resume-audio'
+  | 'reconnect'
+  | 'reauthenticate'
+  | 'open-settings';
+
+export interface ErrorKindInfo {
+  /** What the user is told. */
+  message: string;
+  action?: RecoveryAction;
+  /** Steps to fix it by hand, shown on request. */
+  help?: string;
+}
+
+export const ERROR_KINDS: Record<LiveErrorKind, ErrorKindInfo> = {
+  'permission-denied': {
+    message: 'Access to the microphone or camera was denied.',
+    action: 'retry-recording',
+    help: 'Click the icon at the left of the address bar, allow the microphone (and camera), then retry. On macOS also check System Settings > Privacy & Security.',
+  },
+  'no-device': {
+    message: 'The audio device is missing or in use by another app.',
+    action: 'retry-recording',
+    help: 'Plug in a microphone or pick another one under Audio devices in settings, and close other apps that may be using it.',
+  },
+  'audio-blocked': {
+    message: 'The browser is blocking audio until you interact with the page.',
+    action: 'resume-audio',
+  },
+  // The key is fixed where it is kept; the action then picks the new one up.
+  auth: {
+    message: 'The server rejected the API key.',
+    action: 'reauthenticate',
+    help: 'Set a valid GEMINI_API_KEY for the proxy server and restart it. With a key embedded for local development, fix it in .env.local and restart the dev server. Then re-authenticate.',
+  },
+  quota: {
+    message: 'The API quota or rate limit was reached.',
+    action: 'reconnect',
+    help: 'Wait a minute before reconnecting, or check the quota of the project the key belongs to.',
+  },
+  network: {
+    message: 'The connection to the server was lost.',
+    action: 'reconnect',
+    help: 'Check your network connection. When using the proxy or mock transport, check that its server is running.',
+  },
+  'server-closed': {
+    message: 'The server closed the session.',
+    action: 'reconnect',
+  },
+  decode: {
+    message: 'Some audio from the model could not be played.',
+  },
+  settings: {
+    message: 'The session settings are invalid.',
+    action: 'open-settings',
+  },
+  storage: {
+    message: 'Saved conversations could not be read or written.',
+  },
+  unknown: {
+    message: 'Something went wrong.',
+  },
+};
+
+export const RECOVERY_LABELS: Record<RecoveryAction, string> = {
+  'retry-recording': 'Retry',
+  'resume-audio': 'Enable audio',
+  reconnect: 'Reconnect',
+  reauthenticate: 'Re-authenticate',
+  'open-settings': 'Open settings',
+};
+
+/** An error with a kind, so it can be shown with the right way out. */
+export class LiveAudioError extends Error {
+  constructor(
+    readonly kind: LiveErrorKind,
+    /** Technical detail, e.g. the browser's message or a close reason. */
+    readonly detail = '',
+    /** WebSocket close code, for `server-closed` and friends. */
+    readonly closeCode?: number,
+  ) {
+    super(detail || ERROR_KINDS[kind].message);
+    this.name = 'LiveAudioError';
+  }
+}
+
+/** An error as listed in the UI; repeats are folded into one entry. */
+export interface ErrorReport {
+  id: number;
+  kind: LiveErrorKind;
+  message: string;
+  detail: string;
+  action?: RecoveryAction;
+  help?: string;
+  closeCode?: number;
+  /** Epoch milliseconds of the last occurrence. */
+  at: number;
+  count: number;
+}
+
+/** Kind of a getUserMedia, getDisplayMedia or setSinkId failure. */
+export function classifyMediaError(e: unknown): LiveErrorKind {
+  switch ((e as DOMException)?.name) {
+    case 'NotAllowedError':
+    case 'SecurityError':
+      return 'permission-denied';
+    case 'NotFoundError':
+    case 'OverconstrainedError':
+    case 'NotReadableError':
+    case 'AbortError':
+      return 'no-device';
+    default:
+      return 'unknown';
+  }
+}
+
+const AUTH_REASON = /api.?key|unauthori[sz]ed|unauthenticated|permission.?denied|forbidden/i;
+const QUOTA_REASON = /quota|rate.?limit|resource.?exhausted|too many requests|429/i;
+
+/**
+ * Kind of a session that closed or could not open, from its close code
+ * and reason. Without a code the session never opened, most likely
+ * because the server could not be reached.
+ */
+export function classifyClose(code: number | undefined, reason = ''): LiveErrorKind {
+  if (QUOTA_REASON.test(reason)) return 'quota';
+  if (code === 1008 || AUTH_REASON.test(reason)) return 'auth';
+  if (code === 1007) return 'settings';
+  if (code === undefined || code === 1006 || code === 1001) return 'network';
+  return 'server-closed';
+}
+
+/** Turns anything thrown into a LiveAudioError of `fallback` kind. */
+export function toLiveAudioError(
+  e: unknown,
+  fallback: LiveErrorKind = 'unknown',
+): LiveAudioError {
+  if (e instanceof LiveAudioError) return e;
+  const detail = e instanceof Error ? e.message : String(e ?? '');
+  return new LiveAudioError(fallback, detail);
+}
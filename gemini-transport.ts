@@ -0,0 +1,20 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {GoogleGenAI, GoogleGenAIOptions} from '@google/genai';
+import type {LiveConnectRequest, LiveSession, LiveTransport} from './transport';
+
+/** Live sessions on the Gemini Live API through the GenAI SDK. */
+export class GeminiTransport implements LiveTransport {
+  readonly name = 'gemini';
+  private readonly client: GoogleGenAI;
+
+  constructor(options: GoogleGenAIOptions) {
+    this.client = new GoogleGenAI(options);
+  }
+
+  connect({model, config, callbacks}: LiveConnectRequest): Promise<LiveSession> {
+    return this.client.live.connect({model, config, callbacks});
+  }
+}
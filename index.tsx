@@ -5,30 +5,320 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import {GoogleGenAI, LiveServerMessage, Modality, Session} from '@google/genai';
-import {LitElement, css, html} from 'lit';
-import {customElement, state} from 'lit/decorators.js';
-import {createBlob, decode, decodeAudioData} from './utils';
-import './visual-3d';
+import {FunctionCall, LiveServerMessage} from '@google/genai';
+import {LitElement, PropertyValues, css, html} from 'lit';
+import {customElement, property, state} from 'lit/decorators.js';
+import {AudioCapture} from './audio-capture';
+import {getCurrentTime} from './builtin-tools';
+import {ConnectionManager, ConnectionState, StateChange} from './connection';
+import {
+  ConversationStore,
+  ConversationSummary,
+  StoredFile,
+  defaultTitle,
+  toContextTurns,
+} from './conversation-store';
+import {
+  AudioDevices,
+  DeviceSelection,
+  inputConstraints,
+  listAudioDevices,
+  loadDeviceSelection,
+  saveDeviceSelection,
+  setOutputDevice,
+  supportsOutputSelection,
+} from './devices';
+import {
+  ERROR_KINDS,
+  ErrorReport,
+  LiveAudioError,
+  LiveErrorKind,
+  classifyClose,
+  classifyMediaError,
+  toLiveAudioError,
+} from './errors';
+import {GeminiTransport} from './gemini-transport';
+import {InputGate, InputMode} from './input-gate';
+import {
+  InputChain,
+  InputProcessingOptions,
+  browserProcessing,
+  loadInputProcessing,
+  saveInputProcessing,
+} from './input-processing';
+import {
+  InterruptionRecord,
+  InterruptionSource,
+  splitHeardText,
+} from './interruption';
+import type {GdmLiveAudioEventMap} from './live-audio-events';
+import {
+  LOG_LEVELS,
+  LogLevel,
+  createLogger,
+  formatDiagnostics,
+  getLogConfig,
+  saveLogConfig,
+  setLogConfig,
+} from './logger';
+import {DEFAULT_PLAYBACK_OPTIONS, PlaybackScheduler} from './playback-scheduler';
+import {ToolInvocation, ToolRegistry} from './tools';
+import {Transcript, TranscriptTurn} from './transcript';
+import {
+  LiveSession,
+  LiveTransport,
+  SessionCallbacks,
+  TransportKind,
+  defaultMockUrl,
+  defaultProxyUrl,
+  defaultTransportKind,
+  embeddedApiKey,
+} from './transport';
+import {WebSocketTransport} from './websocket-transport';
+import {SessionMetrics} from './session-metrics';
+import {RecordingLayout, SessionRecorder} from './session-recorder';
+import {
+  SessionSettings,
+  loadSettings,
+  sanitizeSettings,
+  saveSettings,
+  toLiveConnectConfig,
+  validateSettings,
+} from './settings';
+import {createPcmBlob, decode} from './utils';
+import {DEFAULT_VAD_OPTIONS, VadState} from './vad';
+import {
+  DEFAULT_VIDEO_OPTIONS,
+  VideoCapture,
+  VideoOptions,
+  VideoSourceKind,
+  VideoStats,
+} from './video-capture';
+import {MIDNIGHT_PRESET} from './visual-presets';
+import {
+  getVisualizer,
+  listVisualizers,
+  loadVisualizer,
+  saveVisualizer,
+} from './visualizers';
+import './chat-input';
+import './conversation-list';
+import './error-list';
+import './metrics-overlay';
+import './device-picker';
+import './input-processing-picker';
+import './settings-panel';
+import './tool-activity';
+import './transcript-panel';
+import './video-panel';
+import './visualizer-picker';
 
+export type * from './live-audio-events';
+
+const log = createLogger('app');
+const sessionLog = createLogger('session');
+const captureLog = createLogger('capture');
+const playbackLog = createLogger('playback');
+const deviceLog = createLogger('devices');
+const videoLog = createLogger('video');
+const toolLog = createLogger('tools');
+const conversationLog = createLogger('conversations');
+
+const CONNECTION_LABELS: Record<ConnectionState, string> = {
+  idle: 'Disconnected',
+  connecting: 'Connecting',
+  open: 'Connected',
+  reconnecting: 'Reconnecting',
+  failed: 'Connection failed',
+};
+
+/** Key that is held to talk in push-to-talk mode, as a KeyboardEvent code. */
+const TALK_KEY = 'Space';
+/** Key that cuts the model off, as a KeyboardEvent key. */
+const BARGE_IN_KEY = 'Escape';
+
+/** Tool invocations listed in the activity overlay. */
+const MAX_TOOL_INVOCATIONS = 5;
+/** Errors listed at once; the oldest go first. */
+const MAX_ERRORS = 5;
+
+/** Saves each file through a temporary download link. */
+function downloadFiles(files: StoredFile[]) {
+  for (const file of files) {
+    const url = URL.createObjectURL(file.blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = file.name;
+    a.click();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  }
+}
+
+/**
+ * Live voice conversation with Gemini.
+ *
+ * Configured with the attributes and properties below, driven with
+ * `start()`, `stop()`, `reset()`, `sendText()` and `configure()`, and
+ * observed through the events in `GdmLiveAudioEventMap`. `status`,
+ * `error`, `errors`, `connectionState`, `isRecording` and
+ * `transcriptTurns` are read-only.
+ */
 @customElement('gdm-live-audio')
 export class GdmLiveAudio extends LitElement {
-  @state() isRecording = false;
-  @state() status = '';
-  @state() error = '';
-  @state() isSessionInitialized = false; // To control button state
+  @state() private recording = false;
+  @state() private statusText = '';
+  @state() private errorText = '';
+  @state() private errorReports: readonly ErrorReport[] = [];
+  @state() private currentConnectionState: ConnectionState = 'idle';
+  @state() private turns: readonly TranscriptTurn[] = [];
+
+  /** Whether the microphone is being captured. */
+  get isRecording(): boolean {
+    return this.recording;
+  }
+
+  /** Status line shown on screen. */
+  get status(): string {
+    return this.statusText;
+  }
+
+  /** Message of the newest error still listed, '' when there is none. */
+  get error(): string {
+    return this.errorText;
+  }
+
+  /** Errors that were neither resolved nor dismissed, oldest first. */
+  get errors(): readonly ErrorReport[] {
+    return this.errorReports;
+  }
+
+  get connectionState(): ConnectionState {
+    return this.currentConnectionState;
+  }
+
+  get transcriptTurns(): readonly TranscriptTurn[] {
+    return this.turns;
+  }
+
+  /** Samples per PCM chunk sent to the session (512 = 32 ms at 16 kHz). */
+  @property({type: Number, attribute: 'chunk-size'}) chunkSize = 512;
+
+  /** Exported recordings hold one stereo WAV or one WAV per speaker. */
+  @property({attribute: 'recording-layout'}) recordingLayout: RecordingLayout =
+    'stereo';
+
+  /** Backend for live sessions: Gemini directly, the key proxy or the mock. */
+  @property() transport: TransportKind = defaultTransportKind();
 
-  private client: GoogleGenAI;
-  private session: Session;
+  /** WebSocket URL of the key-holding relay, used when `transport` is `proxy`. */
+  @property({attribute: 'proxy-url'}) proxyUrl = defaultProxyUrl();
+
+  /** WebSocket URL of the mock server, used when `transport` is `mock`. */
+  @property({attribute: 'mock-url'}) mockUrl = defaultMockUrl();
+
+  @state() hasRecording = false;
+  @state() settings: SessionSettings = loadSettings();
+  @state() settingsOpen = false;
+  @state() historyOpen = false;
+  @state() conversations: ConversationSummary[] = [];
+  /** Id of the conversation being saved to, once it has a turn. */
+  @state() conversationId: string | null = null;
+  /** Keeps the audio of each conversation with its transcript. */
+  @property({type: Boolean, attribute: 'save-audio'}) saveAudio = false;
+  @state() toolInvocations: readonly ToolInvocation[] = [];
+  @state() audioDevices: AudioDevices = {inputs: [], outputs: []};
+  /** Devices the user picked; persisted across reloads. */
+  @state() deviceSelection: DeviceSelection = loadDeviceSelection();
+  /** Browser and Web Audio processing of the microphone; persisted. */
+  @state() inputProcessing: InputProcessingOptions = loadInputProcessing();
+  /** Whether the microphone is gated by voice activity or push-to-talk. */
+  @property({attribute: 'input-mode'}) inputMode: InputMode = 'voice-activity';
+  /** Level above the noise floor, in dB, that counts as speech. */
+  @property({type: Number, attribute: 'vad-threshold'})
+  vadThresholdDb = DEFAULT_VAD_OPTIONS.thresholdDb;
+  /** Audio kept flowing after speech stops, in ms. */
+  @property({type: Number, attribute: 'vad-hangover'})
+  vadHangoverMs = DEFAULT_VAD_OPTIONS.hangoverMs;
+  /** Audio from before speech was detected that is sent with it, in ms. */
+  @property({type: Number, attribute: 'vad-pre-roll'})
+  vadPreRollMs = DEFAULT_VAD_OPTIONS.preRollMs;
+  /** Fade-out when the model is interrupted, in ms. */
+  @property({type: Number, attribute: 'barge-in-fade'})
+  bargeInFadeMs = DEFAULT_PLAYBACK_OPTIONS.interruptFadeMs;
+  /** Look of the 3D visualizer; see visual-presets.ts for the built-in ones. */
+  @property({attribute: 'visual-preset'}) visualPreset = MIDNIGHT_PRESET.name;
+  /** Id of the visualizer shown; the last one picked in settings is kept. */
+  @property() visualizer = loadVisualizer();
+  @state() videoKind: VideoSourceKind | null = null;
+  @state() videoOptions: VideoOptions = {...DEFAULT_VIDEO_OPTIONS};
+  @state() videoStats: VideoStats | null = null;
+  /** Whether input is currently being sent; the visualizer reacts to it. */
+  @state() vadState: VadState = 'silence';
+  @state() talking = false;
+  /** Shows the telemetry overlay over the visualizer. */
+  @property({type: Boolean, attribute: 'show-metrics'}) showMetrics = false;
+
+  /**
+   * Functions the model can call. Tools registered here are declared to the
+   * model on the next connect.
+   */
+  readonly tools = new ToolRegistry();
+
+  private liveTransport: LiveTransport | null = null;
+  private connection: ConnectionManager | null = null;
   private inputAudioContext = new window.AudioContext({sampleRate: 16000});
   private outputAudioContext = new window.AudioContext({sampleRate: 24000});
   @state() inputNode = this.inputAudioContext.createGain();
+  /**
+   * Filters, compresses and gates the microphone. Everything downstream,
+   * the visualizer, the capture and the monitor, hears its output.
+   */
+  private inputChain = new InputChain(
+    this.inputAudioContext,
+    this.inputProcessing,
+  );
   @state() outputNode = this.outputAudioContext.createGain();
-  private nextStartTime = 0;
+  /**
+   * Plays the model's audio through a jitter buffer. Its `stats` and
+   * `onStats` report buffered audio, underruns and late chunks.
+   */
+  readonly playback = new PlaybackScheduler(
+    this.outputAudioContext,
+    this.outputNode,
+  );
+  /**
+   * Latency, chunk jitter, traffic and reconnects of the session, per turn
+   * and in total. Shown by the telemetry overlay and exported from it.
+   */
+  readonly metrics = new SessionMetrics();
   private mediaStream: MediaStream;
   private sourceNode: MediaStreamAudioSourceNode; 
-  private scriptProcessorNode: ScriptProcessorNode;
-  private sources = new Set<AudioBufferSourceNode>();
+  private audioCapture: AudioCapture | null = null;
+  private inputGate: InputGate | null = null;
+  private videoCapture = new VideoCapture(this.videoOptions);
+  /** Set after a client-side barge-in until the server ends the turn. */
+  private discardingModelAudio = false;
+  private transcript = new Transcript();
+  private recorder = new SessionRecorder();
+  /** Set when the recorder has audio that is not in the store yet. */
+  private recordingDirty = false;
+  private conversationStore = new ConversationStore();
+  /** Title given by the user; '' to derive one from the transcript. */
+  private conversationTitle = '';
+  private conversationCreatedAt = Date.now();
+  private historyQuery = '';
+  private saveTimer: ReturnType<typeof setTimeout> | null = null;
+  private nextErrorId = 1;
+  /** How the last session closed, to tell why a connection failed. */
+  private lastClose: CloseEvent | null = null;
+  /** Turns a `turnstart` was fired for, mapped to whether `turnend` was. */
+  private announcedTurns = new Map<number, boolean>();
+  /** Devices in use, which fall back to '' (default) while a pick is unplugged. */
+  private activeInputId = '';
+  private activeOutputId = '';
+  private readonly onDeviceChange = () => void this.refreshDevices();
+  private readonly onKey = (e: KeyboardEvent) => this.handleKey(e);
+  private readonly onWindowBlur = () => this.setTalking(false);
 
   static styles = css`
     #status {
@@ -44,6 +334,116 @@ export class GdmLiveAudio extends LitElement {
       border-radius: 5px;
     }
 
+    #connection {
+      position: absolute;
+      top: 2vh;
+      left: 2vh;
+      z-index: 10;
+      display: flex;
+      align-items: center;
+      gap: 8px;
+      color: white;
+      font-size: 13px;
+      padding: 4px 10px;
+      background-color: rgba(0,0,0,0.5);
+      border-radius: 12px;
+
+      &::before {
+        content: '';
+        width: 8px;
+        height: 8px;
+        border-radius: 50%;
+        background: #9ca3af;
+      }
+      &.connecting::before, &.reconnecting::before {
+        background: #f59e0b;
+      }
+      &.open::before {
+        background: #10b981;
+      }
+      &.failed::before {
+        background: #ef4444;
+      }
+    }
+
+    gdm-live-audio-visuals-3d,
+    gdm-live-audio-visuals {
+      position: absolute;
+      inset: 0;
+    }
+
+    gdm-video-panel {
+      position: absolute;
+      left: 2vh;
+      bottom: 2vh;
+      z-index: 10;
+    }
+
+    gdm-tool-activity {
+      position: absolute;
+      top: calc(2vh + 36px);
+      left: 2vh;
+      z-index: 10;
+      max-width: 40vw;
+    }
+
+    .overlays {
+      position: absolute;
+      top: 2vh;
+      left: 50%;
+      transform: translateX(-50%);
+      z-index: 15;
+      display: flex;
+      flex-direction: column;
+      align-items: center;
+      gap: 8px;
+      width: min(420px, 90vw);
+    }
+
+    gdm-error-list {
+      align-self: stretch;
+    }
+
+    label.toggle {
+      display: flex;
+      align-items: center;
+      gap: 6px;
+    }
+
+    label.diagnostics {
+      display: flex;
+      flex-direction: column;
+      gap: 4px;
+      margin: 0 0 12px;
+    }
+
+    .diagnostics select,
+    button.diagnostics {
+      font: inherit;
+      color: inherit;
+      background: rgba(255, 255, 255, 0.1);
+      border: 1px solid rgba(255, 255, 255, 0.2);
+      border-radius: 6px;
+      padding: 6px;
+    }
+
+    .diagnostics option {
+      color: black;
+    }
+
+    button.diagnostics {
+      cursor: pointer;
+    }
+
+    gdm-transcript-panel {
+      position: absolute;
+      top: 0;
+      right: 0;
+      bottom: 0;
+      width: min(320px, 40vw);
+      z-index: 10;
+    }
+
     .controls {
       z-index: 10;
       position: absolute;
@@ -87,179 +487,596 @@ export class GdmLiveAudio extends LitElement {
       button#startButton[disabled], button#stopButton[disabled] {
          /* This handles the conditional display more directly than just :disabled */
       }
-      button#startButton.hidden, button#stopButton.hidden {
+      button#startButton.hidden, button#stopButton.hidden, button#talkButton.hidden {
         display: none;
       }
+
+      button#inputModeButton {
+        font-size: 14px;
+        font-weight: 600;
+      }
+
+      button#talkButton[aria-pressed='true'] {
+        background: rgba(200, 0, 0, 0.6);
+      }
     }
   `;
 
   constructor() {
     super();
+    this.transcript.onChange = (turns) => {
+      this.turns = [...turns];
+      this.scheduleSave();
+      this.emitTurnEvents(turns);
+      this.emit('transcript', {turns: this.transcriptTurns});
+    };
+    this.playback.onStats = (stats) => this.metrics.recordPlayback(stats);
+    this.inputChain.output.connect(this.inputNode);
+    // The noise gate toggle is enabled once its worklet has loaded.
+    void this.inputChain.ready.then(() => this.requestUpdate());
+    this.tools.register(getCurrentTime);
+    this.tools.onInvocation = (invocation) => this.onToolInvocation(invocation);
+    this.videoCapture.onFrame = (frame) => {
+      // Frames are not worth buffering; a fresh one follows within a second.
+      if (this.connection?.isOpen) {
+        this.connection.sendRealtimeInput({media: frame});
+      }
+    };
+    this.videoCapture.onStats = (stats) => (this.videoStats = stats);
+    this.videoCapture.onEnded = () => {
+      videoLog.info('Video source ended.');
+      this.videoKind = null;
+      this.videoStats = null;
+    };
+  }
+
+  connectedCallback() {
+    super.connectedCallback();
+    navigator.mediaDevices?.addEventListener('devicechange', this.onDeviceChange);
+    window.addEventListener('keydown', this.onKey);
+    window.addEventListener('keyup', this.onKey);
+    window.addEventListener('blur', this.onWindowBlur);
+    void this.refreshDevices();
+  }
+
+  disconnectedCallback() {
+    navigator.mediaDevices?.removeEventListener('devicechange', this.onDeviceChange);
+    window.removeEventListener('keydown', this.onKey);
+    window.removeEventListener('keyup', this.onKey);
+    window.removeEventListener('blur', this.onWindowBlur);
+    this.stopVideo();
+    super.disconnectedCallback();
+  }
+
+  // Untyped, as `recording` is private and so not a key of `this`.
+  protected updated(changed: PropertyValues) {
+    if (changed.has('recording') && changed.get('recording') !== undefined) {
+      this.emitState(this.connectionState);
+    }
+    if (changed.has('inputMode') && this.inputGate) {
+      this.inputGate.mode = this.inputMode;
+      this.talking = false;
+    }
+  }
+
+  protected firstUpdated() {
+    // Attributes such as `transport` are only set once the element upgrades.
     this.initClient();
   }
 
   private initAudio() {
-    this.nextStartTime = this.outputAudioContext.currentTime;
+    this.playback.reset();
   }
 
   private async initClient() {
     this.initAudio();
     this.updateStatus('Initializing client...');
-    this.isSessionInitialized = false;
 
-    const apiKey = typeof process !== 'undefined' && process.env ? process.env.API_KEY : undefined;
-    console.log('[DEBUG] Attempting to use API_KEY from process.env:', apiKey);
+    try {
+      this.liveTransport = this.createTransport();
+    } catch (e) {
+      this.reportError(
+        new LiveAudioError('auth', `Failed to initialize the GoogleGenAI client: ${(e as Error).message}`),
+      );
+      sessionLog.error('Error initializing GoogleGenAI client:', e);
+      return;
+    }
+    if (!this.liveTransport) return;
 
+    this.outputNode.connect(this.outputAudioContext.destination);
+    this.initSession();
+  }
 
-    if (!apiKey) {
-      this.updateError('API_KEY is not available. Please ensure it is configured correctly in your environment variables and accessible to the client-side code.');
-      console.error('[GDM Live Audio] CRITICAL: process.env.API_KEY is undefined or empty. The application will not function correctly.');
-      this.isSessionInitialized = false; // Explicitly set
-      return; 
+  private createTransport(): LiveTransport | null {
+    switch (this.transport) {
+      case 'mock':
+        sessionLog.info(`Using mock transport at ${this.mockUrl}.`);
+        return new WebSocketTransport(this.mockUrl, 'mock');
+      case 'proxy':
+        sessionLog.info(`Using proxy transport at ${this.proxyUrl}.`);
+        return new WebSocketTransport(this.proxyUrl, 'proxy');
+      case 'gemini': {
+        const apiKey = embeddedApiKey();
+        if (!apiKey) {
+          this.reportError(new LiveAudioError('auth', 'API_KEY is not available. Embedding the key is only for local development (EMBED_API_KEY=true with the dev server); otherwise run the proxy server and use the proxy transport.'));
+          sessionLog.error('CRITICAL: process.env.API_KEY is undefined or empty. The application will not function correctly.');
+          return null;
+        }
+        sessionLog.warn('Using an API key embedded in the page. Do not deploy this mode.');
+        return new GeminiTransport({
+          apiKey: apiKey,
+        });
+      }
+    }
+  }
+
+  private initSession() {
+    if (!this.liveTransport) {
+      this.reportError(new LiveAudioError('unknown', 'Live transport not initialized. Cannot create session.'));
+      sessionLog.error('Live transport not available for session initialization.');
+      return;
+    }
+
+    const errors = validateSettings(this.settings);
+    if (errors.length) {
+      this.reportError(new LiveAudioError('settings', errors.join(' ')));
+      return;
+    }
+
+    this.connection?.close();
+    const connection = new ConnectionManager((callbacks) =>
+      this.connectSession(callbacks),
+    );
+    connection.onStateChange = (change) => this.onConnectionStateChange(change);
+    connection.onMessage = (message) => this.handleMessage(message);
+    connection.onTraffic = (direction, bytes) => {
+      if (direction === 'sent') this.metrics.recordSent(bytes);
+      else this.metrics.recordReceived(bytes);
+    };
+    connection.onError = (e: ErrorEvent) => {
+      const errorDetails = e.message || (e.error ? e.error.message : e.type || 'Unknown session error');
+      sessionLog.error('Session onerror:', e, 'Details:', errorDetails);
+    };
+    this.connection = connection;
+    connection.connect();
+  }
+
+  private connectSession(callbacks: SessionCallbacks): Promise<LiveSession> {
+    const model = this.settings.model;
+    sessionLog.info(`Initializing ${this.liveTransport!.name} session with model:`, model);
+
+    return this.liveTransport!.connect({
+      model: model,
+      callbacks: {
+        ...callbacks,
+        onclose: (e: CloseEvent) => {
+          this.lastClose = e;
+          const reason = e.reason || 'No reason provided';
+          sessionLog.warn(`Session onclose: Code=${e.code}, Reason=${reason}, WasClean=${e.wasClean}`, e);
+          callbacks.onclose(e);
+        },
+      },
+      config: {
+        ...toLiveConnectConfig(this.settings),
+        tools: this.tools.declarations(),
+      },
+    });
+  }
+
+  private onConnectionStateChange(change: StateChange) {
+    this.currentConnectionState = change.state;
+    this.emitState(change.previous);
+    this.metrics.recordConnectionState(change.state, change.previous);
+    if (change.state !== 'open') {
+      // Answers to calls from a session that went away would be void.
+      this.tools.cancelAll();
+    }
+    sessionLog.info(`Connection: ${change.previous} -> ${change.state}`, change);
+
+    switch (change.state) {
+      case 'connecting':
+        this.updateStatus('Initializing session with Gemini...');
+        break;
+      case 'open':
+        this.lastClose = null;
+        this.resolveErrors(['network', 'server-closed', 'auth', 'quota']);
+        this.replayContext();
+        this.updateStatus(
+          change.previous === 'reconnecting'
+            ? 'Reconnected. Session is active.'
+            : 'Connection Opened. Session is active.',
+        );
+        break;
+      case 'reconnecting': {
+        const seconds = ((change.delayMs ?? 0) / 1000).toFixed(1);
+        this.updateStatus(
+          `Connection lost (${change.reason}). Reconnecting in ${seconds}s (attempt ${change.attempt})...`,
+        );
+        break;
+      }
+      case 'failed':
+        this.stopRecording();
+        this.stopVideo();
+        this.updateStatus('Disconnected.');
+        this.reportError(
+          new LiveAudioError(
+            classifyClose(this.lastClose?.code, change.reason),
+            change.reason ?? '',
+            this.lastClose?.code,
+          ),
+        );
+        break;
+      case 'idle':
+        break;
+    }
+  }
+
+  private async handleMessage(message: LiveServerMessage) {
+    // Redacted by the logger, so audio payloads are not dumped.
+    sessionLog.debug('Message received:', message);
+    if (message.serverContent?.interrupted) {
+      sessionLog.info('Interrupted signal received. Fading out current audio playback.');
+      this.interruptModel('server');
+    }
+    this.transcript.applyMessage(message);
+
+    const audio =
+      message.serverContent?.modelTurn?.parts[0]?.inlineData;
+
+    if (audio && audio.data && this.discardingModelAudio) {
+      playbackLog.debug('Dropping audio of a turn the user cut off.');
+    } else if (audio && audio.data) {
+      if (this.outputAudioContext.state === 'suspended') {
+        playbackLog.info('Output audio context is suspended, attempting to resume.');
+        await this.outputAudioContext.resume().catch(err => {
+           playbackLog.error('Error resuming output audio context:', err);
+           this.reportError(new LiveAudioError('audio-blocked', 'Could not resume audio output.'));
+        });
+      }
+      
+      if (this.outputAudioContext.state === 'running') {
+        try {
+          const bytes = decode(audio.data);
+          const pcm = new Int16Array(bytes.buffer, 0, bytes.length >> 1);
+          const delayMs = this.playback.enqueue(pcm);
+          this.metrics.recordModelAudio(
+            (pcm.length / this.outputAudioContext.sampleRate) * 1000,
+            delayMs,
+          );
+          this.recorder.recordOutput(pcm, delayMs);
+          this.hasRecording = true;
+          this.recordingDirty = true;
+          playbackLog.debug(`Audio chunk scheduled in ${delayMs.toFixed(0)} ms.`, this.playback.stats);
+        } catch (decodeError) {
+          playbackLog.error('Error decoding audio data:', decodeError);
+          this.reportError(toLiveAudioError(decodeError, 'decode'));
+        }
+      } else {
+        playbackLog.warn('Output audio context is not running. Cannot play audio.');
+        this.reportError(new LiveAudioError('audio-blocked', 'Audio output context is not active.'));
+      }
+    }
+
+    if (message.toolCall?.functionCalls?.length) {
+      void this.handleToolCall(message.toolCall.functionCalls);
+    }
+    if (message.toolCallCancellation?.ids?.length) {
+      toolLog.info('Tool calls cancelled:', message.toolCallCancellation.ids);
+      this.tools.cancel(message.toolCallCancellation.ids);
+    }
+
+    if (message.serverContent?.turnComplete) {
+      this.metrics.recordTurnEnd();
+      this.recorder.markTurnComplete();
+      this.playback.endTurn();
+      this.discardingModelAudio = false;
+    }
+  }
+
+  private async selectVideoSource(e: CustomEvent<VideoSourceKind | null>) {
+    const kind = e.detail;
+    if (!kind) {
+      this.stopVideo();
+      return;
     }
-    
     try {
-      this.client = new GoogleGenAI({
-        apiKey: apiKey,
-      });
+      await this.videoCapture.start(kind);
+      this.videoKind = kind;
+      this.videoStats = null;
+      videoLog.info(`Streaming ${kind} frames.`);
+    } catch (err) {
+      this.stopVideo();
+      // Dismissing the screen picker is not an error worth showing.
+      if ((err as DOMException).name === 'NotAllowedError' && kind === 'screen') {
+        return;
+      }
+      videoLog.error(`Error starting ${kind}:`, err);
+      this.reportError(
+        new LiveAudioError(
+          classifyMediaError(err),
+          `Could not start the ${kind}: ${(err as Error).message}`,
+        ),
+      );
+    }
+  }
 
-      this.outputNode.connect(this.outputAudioContext.destination);
-      this.initSession();
+  private changeVideoOptions(e: CustomEvent<Partial<VideoOptions>>) {
+    this.videoOptions = {...this.videoOptions, ...e.detail};
+    this.videoCapture.configure(this.videoOptions);
+  }
 
-    } catch (e) {
-      this.updateError(`Failed to initialize GoogleGenAI client: ${e.message}. This usually indicates an issue with the API Key.`);
-      console.error('Error initializing GoogleGenAI client:', e);
-      this.isSessionInitialized = false;
+  private stopVideo() {
+    this.videoCapture.stop();
+    this.videoKind = null;
+    this.videoStats = null;
+  }
+
+  /**
+   * Sends a typed message into the session as a client content turn.
+   * Returns false, and reports an error, if the session is not open.
+   */
+  sendText(text: string): boolean {
+    const sent = this.connection?.sendClientContent({
+      turns: [{role: 'user', parts: [{text}]}],
+      turnComplete: true,
+    });
+    if (!sent) {
+      this.reportError(new LiveAudioError('network', 'Not connected. The message was not sent.'));
+      return false;
+    }
+    sessionLog.info('Text message sent.');
+    this.metrics.recordTextSent();
+    this.transcript.addUserText(text);
+    return true;
+  }
+
+  private submitChat(e: CustomEvent<string>) {
+    // Keep the draft so it can be sent once the session is back.
+    if (!this.sendText(e.detail)) e.preventDefault();
+  }
+
+  /**
+   * Starts capturing the microphone into the open session. Resolves with
+   * whether recording started; see `error` or the `error` event if not.
+   */
+  async start(): Promise<boolean> {
+    await this.startRecording();
+    return this.isRecording;
+  }
+
+  /** Stops capturing the microphone. The session stays open. */
+  stop() {
+    this.stopRecording();
+  }
+
+  /**
+   * Changes session settings, such as the model or voice, saves them as
+   * the settings drawer does, and reconnects. Returns the validation errors,
+   * in which case nothing changes.
+   */
+  configure(settings: Partial<SessionSettings>): string[] {
+    const next = {...this.settings, ...settings};
+    const errors = validateSettings(next);
+    if (errors.length) {
+      this.reportError(new LiveAudioError('settings', errors.join(' ')));
+      return errors;
     }
+    this.settings = next;
+    saveSettings(this.settings);
+    log.info('Settings configured, reconnecting:', this.settings);
+    // Capture keeps running; the new connection buffers audio until it opens.
+    this.reconnect();
+    return [];
   }
 
-  private async initSession() {
-    if (!this.client) {
-      this.updateError('Gemini client not initialized. Cannot create session.');
-      console.error('[GDM Live Audio] Gemini client not available for session initialization.');
-      this.isSessionInitialized = false;
+  /** Reconnects with the current settings; capture keeps running. */
+  private reconnect() {
+    if (this.liveTransport) {
+      this.initSession();
+    } else {
+      this.initClient();
+    }
+  }
+
+  /**
+   * Connects with a key fixed since the session was refused. An embedded
+   * key is compiled into the page, so it takes a reload; the proxy reads
+   * its key when it starts, so a new transport to it is enough.
+   */
+  private async reauthenticate() {
+    if (this.transport === 'gemini') {
+      await this.leaveConversation();
+      location.reload();
       return;
     }
-    // Changed model to the recommended one
-    const model = 'gemini-2.5-flash-preview-04-17'; 
-    console.log('[GDM Live Audio] Initializing session with model:', model);
-    this.updateStatus('Initializing session with Gemini...');
+    this.initClient();
+  }
 
-    try {
-      this.session = await this.client.live.connect({
-        model: model,
-        callbacks: {
-          onopen: () => {
-            this.updateStatus('Connection Opened. Session is active.');
-            console.log('[GDM Live Audio] Session: Connection Opened.');
-            this.isSessionInitialized = true;
-          },
-          onmessage: async (message: LiveServerMessage) => {
-            console.log('[GDM Live Audio] Session: Message received:', JSON.stringify(message, null, 2));
-            const audio =
-              message.serverContent?.modelTurn?.parts[0]?.inlineData;
-
-            if (audio && audio.data) {
-              console.log('[GDM Live Audio] Session: Audio data found in message.');
-              
-              if (this.outputAudioContext.state === 'suspended') {
-                console.log('[GDM Live Audio] Output audio context is suspended, attempting to resume.');
-                await this.outputAudioContext.resume().catch(err => {
-                   console.error('[GDM Live Audio] Error resuming output audio context:', err);
-                   this.updateError('Could not resume audio output.');
-                });
-              }
-              
-              if (this.outputAudioContext.state === 'running') {
-                console.log('[GDM Live Audio] Output audio context is running.');
-                this.nextStartTime = Math.max(
-                  this.nextStartTime,
-                  this.outputAudioContext.currentTime,
-                );
-                console.log(`[GDM Live Audio] Next start time for audio: ${this.nextStartTime}`);
-
-                try {
-                  const audioBuffer = await decodeAudioData(
-                    decode(audio.data),
-                    this.outputAudioContext,
-                    24000, 
-                    1,     
-                  );
-                  console.log(`[GDM Live Audio] Audio decoded. Buffer duration: ${audioBuffer.duration}`);
-                  
-                  const source = this.outputAudioContext.createBufferSource();
-                  source.buffer = audioBuffer;
-                  source.connect(this.outputNode);
-                  source.addEventListener('ended', () =>{
-                    console.log('[GDM Live Audio] Audio source ended.');
-                    this.sources.delete(source);
-                  });
-
-                  source.start(this.nextStartTime);
-                  console.log(`[GDM Live Audio] Audio source started at: ${this.nextStartTime}`);
-                  this.nextStartTime = this.nextStartTime + audioBuffer.duration;
-                  this.sources.add(source);
-                } catch (decodeError) {
-                  console.error('[GDM Live Audio] Error decoding audio data:', decodeError);
-                  this.updateError(`Error processing received audio: ${decodeError.message}`);
-                }
-              } else {
-                console.warn('[GDM Live Audio] Output audio context is not running. Cannot play audio.');
-                this.updateError('Audio output context is not active.');
-              }
-            } else {
-              console.log('[GDM Live Audio] Session: No audio data in current message part.');
-            }
-
-            const interrupted = message.serverContent?.interrupted;
-            if(interrupted) {
-              console.log('[GDM Live Audio] Session: Interrupted signal received. Stopping current audio playback.');
-              for(const source of this.sources.values()) {
-                source.stop();
-                this.sources.delete(source);
-              }
-              this.nextStartTime = 0;
-            }
-          },
-          onerror: (e: ErrorEvent) => { 
-            const errorDetails = e.message || (e.error ? e.error.message : e.type || 'Unknown session error');
-            this.updateError(`Session error: ${errorDetails}`);
-            console.error('[GDM Live Audio] Session onerror:', e, 'Details:', errorDetails);
-            this.isSessionInitialized = false;
-          },
-          onclose: (e: CloseEvent) => {
-            const reason = e.reason || 'No reason provided';
-            this.updateStatus(`Connection Closed: ${reason} (Code: ${e.code}, Clean: ${e.wasClean})`);
-            console.warn(`[GDM Live Audio] Session onclose: Code=${e.code}, Reason=${reason}, WasClean=${e.wasClean}`, e);
-            this.isSessionInitialized = false;
-          },
-        },
-        config: {
-          responseModalities: [Modality.AUDIO],
-          speechConfig: {
-            voiceConfig: {prebuiltVoiceConfig: {voiceName: 'Orus'}},
-          },
-        },
-      });
-      console.log('[GDM Live Audio] Session object created (pending connection):', this.session);
-      // Status update moved to onopen
-    } catch (e) {
-      this.updateError(`Failed to initialize session: ${e.message}`);
-      console.error('[GDM Live Audio] Error initializing session:', e);
-      this.isSessionInitialized = false;
+  /**
+   * Cuts the model off from the client: fades out its audio and ignores the
+   * rest of its turn. Returns false if the model was not speaking.
+   */
+  bargeIn(): boolean {
+    if (!this.playback.stats.playing) return false;
+    playbackLog.info('Client-side barge-in.');
+    this.interruptModel('client');
+    return true;
+  }
+
+  /**
+   * Fades out the model's audio and records how much of its turn was heard.
+   * Fires an `interrupted` event with the InterruptionRecord.
+   */
+  private interruptModel(source: InterruptionSource) {
+    // A barge-in can also cut off the tail of a reply whose turnComplete has
+    // arrived. That turn is already recorded, and the next one must be kept.
+    const turnOpen = source === 'server' || this.playback.turnInProgress;
+    const discardRest = source === 'client' && turnOpen;
+    const playback = this.playback.interrupt(this.bargeInFadeMs);
+    const turn = this.transcript.interruptModel(Date.now(), discardRest);
+    const heardShare = playback.receivedMs
+      ? (playback.playedMs + playback.fadedMs) / playback.receivedMs
+      : 1;
+    const {heard, discarded} = splitHeardText(turn?.text ?? '', heardShare);
+    if (turn) this.transcript.setHeardText(turn.id, heard);
+
+    const record: InterruptionRecord = {
+      ...playback,
+      source,
+      at: Date.now(),
+      turnId: turn?.id,
+      heardText: heard,
+      discardedText: discarded,
+    };
+    this.recorder.markInterrupted(this.bargeInFadeMs, record);
+    if (turnOpen) this.metrics.recordTurnEnd(true);
+    // After a server interruption the server has already dropped the rest.
+    this.discardingModelAudio = discardRest;
+    playbackLog.info('Model interrupted:', record);
+    this.emit('interrupted', record);
+  }
+
+  private async handleToolCall(calls: FunctionCall[]) {
+    toolLog.info('Tool call received:', calls);
+    const connection = this.connection;
+    const functionResponses = await this.tools.dispatch(calls);
+    if (functionResponses.length === 0) return;
+    if (connection !== this.connection || !connection?.sendToolResponse({functionResponses})) {
+      toolLog.warn('Session closed before tool responses could be sent.');
     }
   }
 
+  private onToolInvocation(invocation: ToolInvocation) {
+    const others = this.toolInvocations.filter((i) => i.id !== invocation.id);
+    // Keep the list short; it is a glance at what the assistant is doing.
+    this.toolInvocations = [...others, invocation].slice(-MAX_TOOL_INVOCATIONS);
+  }
+
+  /** Shows a transient status. Errors stay listed until resolved. */
   private updateStatus(msg: string) {
-    this.status = msg;
-    this.error = ''; 
-    console.log(`[GDM Live Audio] Status: ${msg}`);
+    this.statusText = msg;
+    log.info(`Status: ${msg}`);
+  }
+
+  /**
+   * Lists an error with its recovery action and fires `error`. A repeat of
+   * a listed error moves it to the end and counts it instead.
+   */
+  private reportError(error: LiveAudioError) {
+    const info = ERROR_KINDS[error.kind];
+    const existing = this.errors.find(
+      (r) => r.kind === error.kind && r.detail === error.detail,
+    );
+    const report: ErrorReport = {
+      id: existing?.id ?? this.nextErrorId++,
+      kind: error.kind,
+      message: info.message,
+      detail: error.detail,
+      action: info.action,
+      help: info.help,
+      closeCode: error.closeCode,
+      at: Date.now(),
+      count: (existing?.count ?? 0) + 1,
+    };
+    this.setErrors([
+      ...this.errors.filter((r) => r !== existing),
+      report,
+    ].slice(-MAX_ERRORS));
+    log.error(`${report.message} ${report.detail}`.trim(), error);
+    this.emit('error', {
+      kind: report.kind,
+      message: report.message,
+      detail: report.detail,
+      action: report.action,
+      closeCode: report.closeCode,
+    });
+  }
+
+  /** Drops errors of `kinds` once what they were about works again. */
+  private resolveErrors(kinds: LiveErrorKind[]) {
+    const remaining = this.errors.filter((r) => !kinds.includes(r.kind));
+    if (remaining.length !== this.errors.length) this.setErrors(remaining);
+  }
+
+  private dismissError(id: number) {
+    this.setErrors(this.errors.filter((r) => r.id !== id));
   }
 
-  private updateError(msg: string) {
-    this.error = `Error: ${msg}`;
-    this.status = ''; 
-    console.error(`[GDM Live Audio] ${this.error}`);
+  private setErrors(errors: readonly ErrorReport[]) {
+    this.errorReports = errors;
+    const last = errors[errors.length - 1];
+    this.errorText = last ? `${last.message} ${last.detail}`.trim() : '';
+  }
+
+  /** Runs the recovery action an error offered. */
+  private async recover(e: CustomEvent<ErrorReport>) {
+    const report = e.detail;
+    this.dismissError(report.id);
+    log.info(`Recovering from ${report.kind} with ${report.action}.`);
+    switch (report.action) {
+      case 'retry-recording':
+        await this.start();
+        break;
+      case 'resume-audio':
+        await Promise.all([
+          this.inputAudioContext.resume(),
+          this.outputAudioContext.resume(),
+        ]).catch((err) =>
+          this.reportError(toLiveAudioError(err, 'audio-blocked')),
+        );
+        break;
+      case 'reconnect':
+        this.reconnect();
+        break;
+      case 'reauthenticate':
+        this.reauthenticate();
+        break;
+      case 'open-settings':
+        this.historyOpen = false;
+        this.settingsOpen = true;
+        break;
+    }
+  }
+
+  /**
+   * Fires one of the element's public events. `error` does not bubble: a
+   * window-level `error` listener expects an ErrorEvent.
+   */
+  private emit<K extends keyof GdmLiveAudioEventMap>(
+    type: K,
+    detail: GdmLiveAudioEventMap[K]['detail'],
+  ) {
+    const bubbles = type !== 'error';
+    this.dispatchEvent(
+      new CustomEvent(type, {detail, bubbles, composed: bubbles}),
+    );
+  }
+
+  private emitState(previous: ConnectionState) {
+    this.emit('statechange', {
+      connectionState: this.connectionState,
+      previous,
+      recording: this.isRecording,
+    });
+  }
+
+  /** Fires `turnstart` for new turns and `turnend` for newly closed ones. */
+  private emitTurnEvents(turns: readonly TranscriptTurn[]) {
+    if (!turns.length) {
+      this.announcedTurns.clear();
+      return;
+    }
+    for (const turn of turns) {
+      const ended = this.announcedTurns.get(turn.id);
+      if (ended === undefined) {
+        this.announcedTurns.set(turn.id, false);
+        this.emit('turnstart', {turn: {...turn}});
+      }
+      if (turn.endedAt !== undefined && !ended) {
+        this.announcedTurns.set(turn.id, true);
+        this.emit('turnend', {turn: {...turn}});
+      }
+    }
   }
 
   private async startRecording() {
@@ -267,143 +1084,612 @@ export class GdmLiveAudio extends LitElement {
       return;
     }
 
-    if (!this.session || !this.isSessionInitialized) {
-      this.updateError('Session not initialized or not active. Cannot start recording. Check API Key and network, then try resetting.');
+    if (!this.connection || !this.connection.isOpen) {
+      this.reportError(new LiveAudioError('network', 'The session is not open, so recording cannot start.'));
       return;
     }
     
     if (this.inputAudioContext.state === 'suspended') {
-      console.log('[GDM Live Audio] Input audio context is suspended, attempting to resume.');
+      captureLog.info('Input audio context is suspended, attempting to resume.');
       await this.inputAudioContext.resume().catch(err => {
-          console.error('[GDM Live Audio] Error resuming input audio context:', err);
-          this.updateError('Could not resume audio input.');
+          captureLog.error('Error resuming input audio context:', err);
+          this.reportError(new LiveAudioError('audio-blocked', 'Could not resume audio input.'));
       });
     }
     if (this.outputAudioContext.state === 'suspended') {
-      console.log('[GDM Live Audio] Output audio context is suspended, attempting to resume.');
+      playbackLog.info('Output audio context is suspended, attempting to resume.');
       await this.outputAudioContext.resume().catch(err => {
-           console.error('[GDM Live Audio] Error resuming output audio context:', err);
+           playbackLog.error('Error resuming output audio context:', err);
       });
     }
 
     if (this.inputAudioContext.state !== 'running') {
-        this.updateError('Input audio context could not be started. Microphone may be blocked or unavailable.');
+        this.reportError(new LiveAudioError('audio-blocked', 'Input audio context could not be started.'));
         return;
     }
 
     this.updateStatus('Requesting microphone access...');
 
     try {
-      this.mediaStream = await navigator.mediaDevices.getUserMedia({
-        audio: true,
-        video: false,
-      });
+      this.mediaStream = await this.openMicrophone(this.availableInputId());
 
       this.updateStatus('Microphone access granted. Starting capture...');
-      console.log('[GDM Live Audio] Microphone access granted.');
+      captureLog.info('Microphone access granted.');
+      // Device labels are only readable once permission is granted.
+      void this.refreshDevices();
 
       this.sourceNode = this.inputAudioContext.createMediaStreamSource(
         this.mediaStream,
       );
-      this.sourceNode.connect(this.inputNode);
+      this.sourceNode.connect(this.inputChain.input);
 
-      const bufferSize = 256; 
-      this.scriptProcessorNode = this.inputAudioContext.createScriptProcessor(
-        bufferSize,
-        1, 
-        1, 
-      );
-
-      this.scriptProcessorNode.onaudioprocess = (audioProcessingEvent) => {
-        if (!this.isRecording || !this.session || !this.isSessionInitialized) return; 
+      const capture = new AudioCapture(this.inputAudioContext, {
+        chunkSize: this.chunkSize,
+      });
+      const gate = new InputGate(this.inputMode, {
+        sampleRate: this.inputAudioContext.sampleRate,
+        thresholdDb: this.vadThresholdDb,
+        hangoverMs: this.vadHangoverMs,
+        preRollMs: this.vadPreRollMs,
+      });
+      gate.onSend = (pcm) => this.sendAudio(pcm);
+      gate.onStateChange = (state) => {
+        this.vadState = state;
+        this.metrics.recordInputState(state);
+      };
+      this.inputGate = gate;
 
-        const inputBuffer = audioProcessingEvent.inputBuffer;
-        const pcmData = inputBuffer.getChannelData(0);
-        
-        try {
-            if (this.session && this.isRecording) { 
-                 this.session.sendRealtimeInput({media: createBlob(pcmData)});
-            }
-        } catch (e) {
-            console.error("[GDM Live Audio] Error sending realtime input:", e);
-            this.updateError(`Error sending audio: ${e.message}. Try resetting.`);
-            this.stopRecording(); 
-        }
+      capture.onChunk = (pcm) => {
+        if (!this.isRecording || !this.connection) return; 
+        // The recording keeps everything the microphone heard; only what the
+        // gate lets through is sent.
+        this.recorder.recordInput(pcm);
+        this.hasRecording = true;
+        this.recordingDirty = true;
+        gate.process(pcm);
       };
 
-      this.sourceNode.connect(this.scriptProcessorNode);
-      this.scriptProcessorNode.connect(this.inputAudioContext.destination); 
+      // Mark as recording before the capture starts so no chunk is dropped.
+      this.audioCapture = capture;
+      this.recording = true;
+      await capture.start(this.inputNode);
       
-      this.isRecording = true;
+      this.resolveErrors(['permission-denied', 'no-device', 'audio-blocked']);
       this.updateStatus('🔴 Recording... Capturing PCM chunks.');
-      console.log('[GDM Live Audio] Recording started. Script processor active.');
+      captureLog.info(`Recording started. Capture mode: ${capture.mode}.`);
     } catch (err) {
-      console.error('[GDM Live Audio] Error starting recording:', err);
-      this.updateError(`Failed to start recording: ${err.message}. Check microphone permissions.`);
+      captureLog.error('Error starting recording:', err);
+      this.reportError(
+        new LiveAudioError(
+          classifyMediaError(err),
+          `Failed to start recording: ${(err as Error).message}`,
+        ),
+      );
       this.stopRecording(); 
     }
   }
 
   private stopRecording() {
-    if (!this.isRecording && !this.mediaStream && !this.scriptProcessorNode) {
+    if (!this.isRecording && !this.mediaStream && !this.audioCapture) {
       // Avoid verbose logging if already mostly stopped
-      if (this.isRecording || this.mediaStream || this.scriptProcessorNode) {
-         console.log('[GDM Live Audio] Stop recording called, but not in a fully active recording state.');
+      if (this.isRecording || this.mediaStream || this.audioCapture) {
+         captureLog.info('Stop recording called, but not in a fully active recording state.');
       }
-      this.isRecording = false; // Ensure state is correct
+      this.recording = false; // Ensure state is correct
       return;
     }
       
     this.updateStatus('Stopping recording...');
-    console.log('[GDM Live Audio] Stopping recording.');
+    captureLog.info('Stopping recording.');
 
-    this.isRecording = false;
+    this.setTalking(false);
+    this.recording = false;
+    this.inputGate = null;
+    this.vadState = 'silence';
 
-    if (this.scriptProcessorNode) {
-      this.scriptProcessorNode.disconnect();
-      this.scriptProcessorNode.onaudioprocess = null; 
-      this.scriptProcessorNode = null;
-      console.log('[GDM Live Audio] Script processor disconnected.');
+    if (this.audioCapture) {
+      this.audioCapture.stop();
+      this.audioCapture = null;
+      captureLog.debug('Audio capture stopped.');
     }
     
     if (this.sourceNode) {
       this.sourceNode.disconnect();
       this.sourceNode = null;
-      console.log('[GDM Live Audio] Source node disconnected.');
+      captureLog.debug('Source node disconnected.');
     }
 
     if (this.mediaStream) {
       this.mediaStream.getTracks().forEach((track) => track.stop());
       this.mediaStream = null;
-      console.log('[GDM Live Audio] Media stream tracks stopped.');
+      captureLog.debug('Media stream tracks stopped.');
     }
     
     this.updateStatus('Recording stopped. Ready to start again if session is active.');
+    void this.saveRecording();
+  }
+
+  private sendAudio(pcm: Int16Array) {
+    if (!this.isRecording || !this.connection) return;
+    // While reconnecting the connection buffers chunks and replays them.
+    try {
+      this.connection.sendRealtimeInput({media: createPcmBlob(pcm)});
+    } catch (e) {
+      captureLog.error('Error sending realtime input:', e);
+      this.reportError(toLiveAudioError(e, 'network'));
+      this.stopRecording();
+    }
+  }
+
+  private setTalking(talking: boolean) {
+    if (this.inputMode !== 'push-to-talk' || !this.inputGate) {
+      this.talking = false;
+      return;
+    }
+    this.inputGate.setTalking(talking);
+    this.talking = this.inputGate.isTalking;
+  }
+
+  private handleKey(e: KeyboardEvent) {
+    // Leave the keys alone while typing, e.g. in the settings drawer.
+    const target = e.composedPath()[0] as HTMLElement | undefined;
+    if (target?.closest?.('input, textarea, select, [contenteditable]')) return;
+    if (e.key === BARGE_IN_KEY) {
+      if (e.type === 'keydown' && this.bargeIn()) e.preventDefault();
+      return;
+    }
+    if (e.code !== TALK_KEY || this.inputMode !== 'push-to-talk') return;
+    e.preventDefault();
+    if (e.type === 'keydown' && !e.repeat) {
+      this.setTalking(true);
+    } else if (e.type === 'keyup') {
+      this.setTalking(false);
+    }
+  }
+
+  private toggleInputMode() {
+    this.setTalking(false);
+    this.inputMode =
+      this.inputMode === 'push-to-talk' ? 'voice-activity' : 'push-to-talk';
+    captureLog.info(`Input mode: ${this.inputMode}.`);
+  }
+
+  /** Opens the given microphone, falling back to the default if it is gone. */
+  private async openMicrophone(deviceId: string): Promise<MediaStream> {
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({
+        audio: inputConstraints(
+          deviceId,
+          browserProcessing(this.inputProcessing),
+        ),
+        video: false,
+      });
+      this.activeInputId = deviceId;
+      return stream;
+    } catch (e) {
+      const name = (e as DOMException).name;
+      if (!deviceId || (name !== 'OverconstrainedError' && name !== 'NotFoundError')) {
+        throw e;
+      }
+      captureLog.warn(`Microphone ${deviceId} unavailable, using the default.`);
+      return this.openMicrophone('');
+    }
+  }
+
+  /** The picked microphone if it is plugged in, else '' for the default. */
+  private availableInputId() {
+    const {inputId} = this.deviceSelection;
+    return this.audioDevices.inputs.some((d) => d.deviceId === inputId)
+      ? inputId
+      : '';
   }
 
-  private reset() {
+  private availableOutputId() {
+    const {outputId} = this.deviceSelection;
+    return this.audioDevices.outputs.some((d) => d.deviceId === outputId)
+      ? outputId
+      : '';
+  }
+
+  private async refreshDevices() {
+    if (!navigator.mediaDevices?.enumerateDevices) return;
+    try {
+      this.audioDevices = await listAudioDevices();
+    } catch (e) {
+      deviceLog.warn('Could not list audio devices:', e);
+      return;
+    }
+    await this.applyDevices();
+  }
+
+  /**
+   * Moves capture and playback to the picked devices, or to the defaults for
+   * picks that are unplugged. The live session is left alone.
+   */
+  private async applyDevices() {
+    const inputId = this.availableInputId();
+    if (this.isRecording && inputId !== this.activeInputId) {
+      await this.switchInput(inputId);
+    }
+    const outputId = this.availableOutputId();
+    if (
+      outputId !== this.activeOutputId &&
+      supportsOutputSelection(this.outputAudioContext)
+    ) {
+      try {
+        await setOutputDevice(this.outputAudioContext, outputId);
+        this.activeOutputId = outputId;
+        deviceLog.info(`Output device: ${outputId || 'default'}.`);
+      } catch (e) {
+        deviceLog.error('Error switching output device:', e);
+        this.reportError(
+          new LiveAudioError(
+            classifyMediaError(e),
+            `Could not switch speaker: ${(e as Error).message}`,
+          ),
+        );
+      }
+    }
+  }
+
+  /**
+   * Swaps the microphone mid-recording without touching the session, also
+   * to reopen it with other browser processing.
+   */
+  private async switchInput(deviceId: string) {
+    const capture = this.audioCapture;
+    if (!capture) return;
+    let stream: MediaStream;
+    try {
+      stream = await this.openMicrophone(deviceId);
+    } catch (e) {
+      deviceLog.error('Error switching microphone:', e);
+      this.reportError(
+        new LiveAudioError(
+          classifyMediaError(e),
+          `Could not switch microphone: ${(e as Error).message}`,
+        ),
+      );
+      return;
+    }
+    if (!this.isRecording || capture !== this.audioCapture) {
+      // Recording stopped while the new microphone was opening.
+      stream.getTracks().forEach((track) => track.stop());
+      return;
+    }
+
+    const source = this.inputAudioContext.createMediaStreamSource(stream);
+    this.sourceNode?.disconnect();
+    source.connect(this.inputChain.input);
+    this.mediaStream?.getTracks().forEach((track) => track.stop());
+    this.sourceNode = source;
+    this.mediaStream = stream;
+
+    const label =
+      this.audioDevices.inputs.find((d) => d.deviceId === this.activeInputId)
+        ?.label ?? 'the default microphone';
+    this.updateStatus(`🔴 Recording... Switched to ${label}.`);
+  }
+
+  private selectVisualizer(e: CustomEvent<string>) {
+    this.visualizer = e.detail;
+    saveVisualizer(this.visualizer);
+  }
+
+  private selectInputProcessing(e: CustomEvent<InputProcessingOptions>) {
+    const previous = browserProcessing(this.inputProcessing);
+    this.inputProcessing = e.detail;
+    saveInputProcessing(this.inputProcessing);
+    this.inputChain.configure(this.inputProcessing);
+    const next = browserProcessing(this.inputProcessing);
+    const reopen = (Object.keys(next) as (keyof typeof next)[]).some(
+      (key) => next[key] !== previous[key],
+    );
+    if (reopen && this.isRecording) {
+      // Browsers apply these reliably only when the microphone is opened.
+      void this.switchInput(this.activeInputId);
+    }
+    captureLog.info('Input processing:', this.inputProcessing);
+  }
+
+  private selectDevices(e: CustomEvent<DeviceSelection>) {
+    this.deviceSelection = e.detail;
+    saveDeviceSelection(this.deviceSelection);
+    void this.applyDevices();
+  }
+
+  /**
+   * Stops recording, saves and closes the conversation and connects a new
+   * session.
+   */
+  reset() {
     this.updateStatus('Resetting session...');
-    console.log('[GDM Live Audio] Resetting session.');
-    this.isSessionInitialized = false; // Mark as not initialized during reset
+    log.info('Resetting session.');
     this.stopRecording(); 
-    if (this.session) {
-       try {
-        this.session.close();
-        console.log('[GDM Live Audio] Existing session closed.');
-       } catch (e) {
-        console.warn("[GDM Live Audio] Error closing existing session during reset:", e);
-       }
-       this.session = null; 
+    this.stopVideo();
+    if (this.connection) {
+      this.connection.close();
+      this.connection = null;
+      log.info('Existing session closed.');
     }
+    void this.leaveConversation();
+    this.metrics.reset();
+    this.transcript.clear();
+    this.recorder.clear();
+    this.hasRecording = false;
+    this.toolInvocations = [];
     setTimeout(() => {
-      console.log('[GDM Live Audio] Re-initializing client and session after reset.');
+      log.info('Re-initializing client and session after reset.');
       this.initClient(); 
     }, 250);
   }
 
+  private applySettings(e: CustomEvent<SessionSettings>) {
+    if (this.configure(e.detail).length === 0) this.settingsOpen = false;
+  }
+
+  private downloadRecording() {
+    const {audio, sidecar} = this.recorder.export(
+      this.recordingLayout,
+      this.transcript.turns,
+    );
+    downloadFiles([...audio, sidecar]);
+    log.info('Recording exported.');
+  }
+
+  /** Changes the default log level; per-namespace overrides are kept. */
+  private selectLogLevel(e: Event) {
+    const level = (e.target as HTMLSelectElement).value as LogLevel;
+    const config = {...getLogConfig(), level};
+    setLogConfig(config);
+    saveLogConfig(config);
+    this.requestUpdate();
+  }
+
+  /** Copies recent log entries and session state for a bug report. */
+  private async copyDiagnostics() {
+    const report = formatDiagnostics({
+      transport: this.transport,
+      connectionState: this.connectionState,
+      settings: this.settings,
+      metrics: this.metrics.snapshot(),
+    });
+    try {
+      await navigator.clipboard.writeText(report);
+      this.updateStatus('Diagnostics copied to the clipboard.');
+    } catch (e) {
+      // Clipboard access can be denied; a file does as well.
+      log.warn('Could not copy diagnostics, downloading them instead:', e);
+      const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+      downloadFiles([
+        {
+          name: `diagnostics-${stamp}.txt`,
+          blob: new Blob([report], {type: 'text/plain'}),
+        },
+      ]);
+    }
+  }
+
+  private exportMetrics(e: CustomEvent<'json' | 'csv'>) {
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const file =
+      e.detail === 'json'
+        ? {
+            name: `latency-${stamp}.json`,
+            blob: new Blob([this.metrics.toJSON()], {type: 'application/json'}),
+          }
+        : {
+            name: `latency-${stamp}.csv`,
+            blob: new Blob([this.metrics.toCSV()], {type: 'text/csv'}),
+          };
+    downloadFiles([file]);
+    log.info(`Metrics exported as ${e.detail}.`);
+  }
+
+  /**
+   * Gives a new session the transcript so far, so that a resumed
+   * conversation, or one that reconnected, carries on in context.
+   */
+  private replayContext() {
+    const turns = toContextTurns(this.transcript.turns);
+    if (!turns.length) return;
+    this.connection?.sendClientContent({turns, turnComplete: false});
+    sessionLog.info(`Replayed ${turns.length} turns as context.`);
+  }
+
+  private scheduleSave() {
+    if (this.saveTimer !== null) clearTimeout(this.saveTimer);
+    this.saveTimer = setTimeout(() => void this.saveConversation(), 1000);
+  }
+
+  /** Saves the transcript and settings of the current conversation. */
+  private async saveConversation() {
+    if (this.saveTimer !== null) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+    const turns = [...this.transcript.turns];
+    if (!turns.length) return;
+    this.conversationId ??= crypto.randomUUID();
+    const createdAt = this.conversationCreatedAt;
+    try {
+      await this.conversationStore.save({
+        id: this.conversationId,
+        title: this.conversationTitle || defaultTitle({turns, createdAt}),
+        createdAt,
+        updatedAt: Date.now(),
+        settings: this.settings,
+        turns,
+      });
+    } catch (e) {
+      conversationLog.warn('Could not save the conversation:', e);
+      return;
+    }
+    if (this.historyOpen) void this.refreshConversations();
+  }
+
+  /** Saves the session's audio with the conversation, if enabled. */
+  private async saveRecording() {
+    if (!this.saveAudio || !this.recordingDirty || !this.conversationId) return;
+    const {audio, sidecar} = this.recorder.export(
+      this.recordingLayout,
+      this.transcript.turns,
+    );
+    this.recordingDirty = false;
+    try {
+      await this.conversationStore.saveRecording(
+        this.conversationId,
+        this.recordingLayout,
+        [...audio, sidecar],
+      );
+    } catch (e) {
+      conversationLog.warn('Could not save the recording:', e);
+    }
+  }
+
+  /**
+   * Saves the current conversation and starts a new one. Everything is read
+   * before the first await, so callers may clear the transcript right away.
+   */
+  private leaveConversation(): Promise<unknown> {
+    const saved = Promise.all([this.saveConversation(), this.saveRecording()]);
+    this.conversationId = null;
+    this.conversationTitle = '';
+    this.conversationCreatedAt = Date.now();
+    return saved;
+  }
+
+  private async refreshConversations() {
+    try {
+      this.conversations = await this.conversationStore.list(this.historyQuery);
+    } catch (e) {
+      conversationLog.warn('Could not list conversations:', e);
+      this.reportError(toLiveAudioError(e, 'storage'));
+    }
+  }
+
+  private toggleHistory() {
+    this.historyOpen = !this.historyOpen;
+    if (this.historyOpen) {
+      this.settingsOpen = false;
+      void this.refreshConversations();
+    }
+  }
+
+  private searchConversations(e: CustomEvent<string>) {
+    this.historyQuery = e.detail;
+    void this.refreshConversations();
+  }
+
+  /**
+   * Switches to a saved conversation: restores its transcript and settings
+   * and reconnects, replaying the transcript as context once open.
+   */
+  private async resumeConversation(e: CustomEvent<string>) {
+    const conversation = await this.conversationStore
+      .get(e.detail)
+      .catch((err) => {
+        conversationLog.warn('Could not load the conversation:', err);
+        return undefined;
+      });
+    if (!conversation) {
+      this.reportError(new LiveAudioError('storage', 'Could not load that conversation.'));
+      void this.refreshConversations();
+      return;
+    }
+    conversationLog.info(`Resuming conversation ${conversation.id}.`);
+    void this.leaveConversation();
+    this.conversationId = conversation.id;
+    this.conversationTitle = conversation.title;
+    this.conversationCreatedAt = conversation.createdAt;
+    this.recorder.clear();
+    this.hasRecording = false;
+    this.recordingDirty = false;
+    this.toolInvocations = [];
+    this.metrics.reset();
+    // Loaded turns are not news to the host.
+    this.announcedTurns = new Map(conversation.turns.map((t) => [t.id, true]));
+    this.transcript.load(conversation.turns);
+    const settings = sanitizeSettings(conversation.settings);
+    if (validateSettings(settings).length === 0) {
+      this.settings = settings;
+    }
+    this.historyOpen = false;
+    this.updateStatus(`Resuming "${conversation.title}"...`);
+    // Capture keeps running, as when settings change.
+    this.reconnect();
+  }
+
+  private async renameConversation(e: CustomEvent<{id: string; title: string}>) {
+    const {id, title} = e.detail;
+    if (id === this.conversationId) this.conversationTitle = title;
+    try {
+      await this.conversationStore.rename(id, title);
+    } catch (err) {
+      conversationLog.warn('Could not rename the conversation:', err);
+    }
+    void this.refreshConversations();
+  }
+
+  private async deleteConversation(e: CustomEvent<string>) {
+    const id = e.detail;
+    if (id === this.conversationId) {
+      // Start afresh, or the next autosave would bring it back.
+      if (this.saveTimer !== null) clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+      this.conversationId = null;
+      this.conversationTitle = '';
+      this.conversationCreatedAt = Date.now();
+      this.transcript.clear();
+      this.recorder.clear();
+      this.hasRecording = false;
+      this.recordingDirty = false;
+    }
+    try {
+      await this.conversationStore.delete(id);
+    } catch (err) {
+      conversationLog.warn('Could not delete the conversation:', err);
+      this.reportError(toLiveAudioError(err, 'storage'));
+    }
+    void this.refreshConversations();
+  }
+
+  private async downloadConversationAudio(e: CustomEvent<string>) {
+    try {
+      downloadFiles(await this.conversationStore.getRecording(e.detail));
+    } catch (err) {
+      conversationLog.warn('Could not load the recording:', err);
+      this.reportError(toLiveAudioError(err, 'storage'));
+    }
+  }
+
+  private async exportConversations() {
+    try {
+      await this.saveConversation();
+      const blob = await this.conversationStore.exportAll();
+      const date = new Date().toISOString().slice(0, 10);
+      downloadFiles([{name: `conversations-${date}.json`, blob}]);
+    } catch (err) {
+      conversationLog.warn('Could not export conversations:', err);
+      this.reportError(toLiveAudioError(err, 'storage'));
+    }
+  }
+
+  private async importConversations(e: CustomEvent<File>) {
+    try {
+      const count = await this.conversationStore.importAll(e.detail);
+      this.updateStatus(`Imported ${count} conversations.`);
+    } catch (err) {
+      conversationLog.warn('Could not import conversations:', err);
+      this.reportError(toLiveAudioError(err, 'storage'));
+    }
+    void this.refreshConversations();
+  }
+
   render() {
     const startButtonClasses = this.isRecording ? 'hidden' : '';
     const stopButtonClasses = !this.isRecording ? 'hidden' : '';
+    const visualizer = getVisualizer(this.visualizer);
 
     return html`
       <div>
@@ -427,7 +1713,7 @@ export class GdmLiveAudio extends LitElement {
             id="startButton"
             class=${startButtonClasses}
             @click=${this.startRecording}
-            ?disabled=${this.isRecording || !this.isSessionInitialized}
+            ?disabled=${this.isRecording || this.connectionState !== 'open'}
             aria-label="Start Recording">
             <svg
               viewBox="0 0 100 100"
@@ -453,13 +1739,217 @@ export class GdmLiveAudio extends LitElement {
               <rect x="0" y="0" width="100" height="100" rx="15" />
             </svg>
           </button>
+          <button
+            id="inputModeButton"
+            @click=${this.toggleInputMode}
+            aria-pressed=${this.inputMode === 'push-to-talk'}
+            title=${this.inputMode === 'push-to-talk'
+              ? 'Push-to-talk: hold Space or the talk button'
+              : 'Voice activity: sends audio while you speak'}
+            aria-label="Toggle Push-to-Talk">
+            ${this.inputMode === 'push-to-talk' ? 'PTT' : 'VAD'}
+          </button>
+          <button
+            id="talkButton"
+            class=${this.inputMode === 'push-to-talk' ? '' : 'hidden'}
+            ?disabled=${!this.isRecording}
+            aria-pressed=${this.talking}
+            @pointerdown=${(e: PointerEvent) => {
+              (e.currentTarget as HTMLElement).setPointerCapture(e.pointerId);
+              this.setTalking(true);
+            }}
+            @pointerup=${() => this.setTalking(false)}
+            @pointercancel=${() => this.setTalking(false)}
+            aria-label="Hold to Talk">
+            <svg
+              xmlns="http://www.w3.org/2000/svg"
+              height="40px"
+              viewBox="0 -960 960 960"
+              width="40px"
+              fill="#ffffff">
+              <path
+                d="M480-400q-50 0-85-35t-35-85v-240q0-50 35-85t85-35q50 0 85 35t35 85v240q0 50-35 85t-85 35Zm-40 280v-123q-104-14-172-93t-68-184h80q0 83 58.5 141.5T480-320q83 0 141.5-58.5T680-520h80q0 105-68 184t-172 93v123h-80Z" />
+            </svg>
+          </button>
+          <button
+            id="historyButton"
+            @click=${this.toggleHistory}
+            aria-expanded=${this.historyOpen}
+            aria-label="Conversation History">
+            <svg
+              xmlns="http://www.w3.org/2000/svg"
+              height="40px"
+              viewBox="0 -960 960 960"
+              width="40px"
+              fill="#ffffff">
+              <path
+                d="M480-120q-138 0-240.5-91.5T122-440h82q14 104 92.5 172T480-200q117 0 198.5-81.5T760-480q0-117-81.5-198.5T480-760q-69 0-129 32t-101 88h110v80H120v-240h80v94q51-64 124.5-99T480-840q75 0 140.5 28.5t114 77q48.5 48.5 77 114T840-480q0 75-28.5 140.5t-77 114q-48.5 48.5-114 77T480-120Zm112-192L440-464v-216h80v184l128 128-56 56Z" />
+            </svg>
+          </button>
+          <button
+            id="settingsButton"
+            @click=${() => {
+              this.settingsOpen = !this.settingsOpen;
+              if (this.settingsOpen) this.historyOpen = false;
+            }}
+            aria-expanded=${this.settingsOpen}
+            aria-label="Session Settings">
+            <svg
+              xmlns="http://www.w3.org/2000/svg"
+              height="40px"
+              viewBox="0 -960 960 960"
+              width="40px"
+              fill="#ffffff">
+              <path
+                d="m370-80-16-128q-13-5-24.5-12T307-235l-119 50L78-375l103-78q-1-7-1-13.5v-27q0-6.5 1-13.5L78-585l110-190 119 50q11-8 23-15t24-12l16-128h220l16 128q13 5 24.5 12t22.5 15l119-50 110 190-103 78q1 7 1 13.5v27q0 6.5-2 13.5l103 78-110 190-118-50q-11 8-23 15t-24 12L590-80H370Zm112-260q58 0 99-41t41-99q0-58-41-99t-99-41q-59 0-99.5 41T342-480q0 58 40.5 99t99.5 41Z" />
+            </svg>
+          </button>
+          <button
+            id="downloadButton"
+            @click=${this.downloadRecording}
+            ?disabled=${!this.hasRecording}
+            aria-label="Download Recording">
+            <svg
+              xmlns="http://www.w3.org/2000/svg"
+              height="40px"
+              viewBox="0 -960 960 960"
+              width="40px"
+              fill="#ffffff">
+              <path
+                d="M480-320 280-520l56-58 104 104v-326h80v326l104-104 56 58-200 200ZM240-160q-33 0-56.5-23.5T160-240v-120h80v120h480v-120h80v120q0 33-23.5 56.5T720-160H240Z" />
+            </svg>
+          </button>
         </div>
 
-        <div id="status" role="status" aria-live="polite"> ${this.error || this.status} </div>
-        <gdm-live-audio-visuals-3d
-          .inputNode=${this.inputNode}
-          .outputNode=${this.outputNode}></gdm-live-audio-visuals-3d>
+        <div id="connection" class=${this.connectionState}>
+          ${CONNECTION_LABELS[this.connectionState]}
+        </div>
+        <gdm-video-panel
+          .stream=${this.videoKind ? this.videoCapture.stream : null}
+          .kind=${this.videoKind}
+          .options=${this.videoOptions}
+          .stats=${this.videoStats}
+          ?disabled=${this.connectionState !== 'open'}
+          @video-source-change=${this.selectVideoSource}
+          @video-options-change=${this.changeVideoOptions}></gdm-video-panel>
+        <div class="overlays">
+          <gdm-error-list
+            .errors=${this.errors}
+            @error-action=${this.recover}
+            @error-dismiss=${(e: CustomEvent<number>) =>
+              this.dismissError(e.detail)}></gdm-error-list>
+          ${this.showMetrics
+            ? html`<gdm-metrics-overlay
+                .metrics=${this.metrics}
+                @metrics-export=${this.exportMetrics}></gdm-metrics-overlay>`
+            : ''}
+        </div>
+        <gdm-tool-activity
+          .invocations=${this.toolInvocations}></gdm-tool-activity>
+        <div id="status" role="status" aria-live="polite"> ${this.status} </div>
+        <gdm-settings-panel
+          .settings=${this.settings}
+          ?open=${this.settingsOpen}
+          @settings-apply=${this.applySettings}
+          @settings-close=${() => (this.settingsOpen = false)}>
+          <gdm-device-picker
+            .inputs=${this.audioDevices.inputs}
+            .outputs=${this.audioDevices.outputs}
+            .selection=${this.deviceSelection}
+            ?output-supported=${supportsOutputSelection(this.outputAudioContext)}
+            @device-change=${this.selectDevices}></gdm-device-picker>
+          <gdm-input-processing-picker
+            slot="processing"
+            .options=${this.inputProcessing}
+            ?gate-supported=${this.inputChain.gateAvailable}
+            @input-processing-change=${this.selectInputProcessing}></gdm-input-processing-picker>
+          <gdm-visualizer-picker
+            slot="display"
+            .visualizers=${listVisualizers()}
+            selected=${visualizer.id}
+            @visualizer-change=${this.selectVisualizer}></gdm-visualizer-picker>
+          <label slot="display" class="toggle">
+            <input
+              type="checkbox"
+              .checked=${this.showMetrics}
+              @change=${(e: Event) =>
+                (this.showMetrics = (e.target as HTMLInputElement).checked)} />
+            Telemetry overlay
+          </label>
+          <label slot="diagnostics" class="diagnostics">
+            Log level
+            <select @change=${this.selectLogLevel}>
+              ${LOG_LEVELS.map(
+                (level) => html`<option
+                  value=${level}
+                  ?selected=${level === getLogConfig().level}>
+                  ${level}
+                </option>`,
+              )}
+            </select>
+          </label>
+          <button
+            slot="diagnostics"
+            class="diagnostics"
+            @click=${this.copyDiagnostics}>
+            Copy diagnostics
+          </button>
+        </gdm-settings-panel>
+        <gdm-conversation-list
+          .conversations=${this.conversations}
+          .activeId=${this.conversationId}
+          ?open=${this.historyOpen}
+          @conversation-search=${this.searchConversations}
+          @conversation-resume=${this.resumeConversation}
+          @conversation-rename=${this.renameConversation}
+          @conversation-delete=${this.deleteConversation}
+          @conversation-download=${this.downloadConversationAudio}
+          @conversations-export=${this.exportConversations}
+          @conversations-import=${this.importConversations}
+          @conversations-close=${() =>
+            (this.historyOpen = false)}></gdm-conversation-list>
+        <gdm-transcript-panel .turns=${this.transcriptTurns}>
+          <gdm-chat-input
+            ?disabled=${this.connectionState !== 'open'}
+            @chat-submit=${this.submitChat}></gdm-chat-input>
+        </gdm-transcript-panel>
+        ${visualizer.render({
+          inputNode: this.inputNode,
+          outputNode: this.outputNode,
+          vadState: this.vadState,
+          preset: this.visualPreset,
+        })}
       </div>
     `;
   }
 }
+
+/** Types the listeners of the element's own events. */
+export interface GdmLiveAudio {
+  addEventListener<K extends keyof GdmLiveAudioEventMap>(
+    type: K,
+    listener: (this: GdmLiveAudio, ev: GdmLiveAudioEventMap[K]) => unknown,
+    options?: boolean | AddEventListenerOptions,
+  ): void;
+  addEventListener(
+    type: string,
+    listener: EventListenerOrEventListenerObject,
+    options?: boolean | AddEventListenerOptions,
+  ): void;
+  removeEventListener<K extends keyof GdmLiveAudioEventMap>(
+    type: K,
+    listener: (this: GdmLiveAudio, ev: GdmLiveAudioEventMap[K]) => unknown,
+    options?: boolean | EventListenerOptions,
+  ): void;
+  removeEventListener(
+    type: string,
+    listener: EventListenerOrEventListenerObject,
+    options?: boolean | EventListenerOptions,
+  ): void;
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'gdm-live-audio': GdmLiveAudio;
+  }
+}
@@ -0,0 +1,120 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {
+  DEFAULT_VAD_OPTIONS,
+  PreRollBuffer,
+  VadOptions,
+  VadState,
+  VoiceActivityDetector,
+} from './vad';
+
+/**
+ * voice-activity: the microphone is open and the VAD decides what is sent.
+ * push-to-talk: audio is only sent while the talk key or button is held.
+ */
+export type InputMode = 'voice-activity' | 'push-to-talk';
+
+/**
+ * Decides which captured chunks reach the session.
+ *
+ * In push-to-talk mode the talk button decides, and the last moments before
+ * it was pressed are sent along so the first word is not clipped. Releasing
+ * it sends a stretch of silence as long as the VAD hangover, so the server's
+ * own end-of-speech detection closes the turn.
+ */
+export class InputGate {
+  /** Called with every chunk that should be sent, in order. */
+  onSend: (pcm: Int16Array) => void = () => {};
+  /** Called when the gate opens, closes or enters its hangover. */
+  onStateChange: (state: VadState) => void = () => {};
+
+  private readonly vad: VoiceActivityDetector;
+  /** Push-to-talk only; the VAD keeps its own. */
+  private readonly preRoll: PreRollBuffer;
+  private readonly sampleRate: number;
+  private readonly hangoverMs: number;
+  private currentMode: InputMode;
+  private talking = false;
+  private currentState: VadState = 'silence';
+
+  constructor(mode: InputMode, options: Partial<VadOptions> = {}) {
+    this.currentMode = mode;
+    this.vad = new VoiceActivityDetector(options);
+    this.sampleRate = options.sampleRate ?? DEFAULT_VAD_OPTIONS.sampleRate;
+    this.hangoverMs = options.hangoverMs ?? DEFAULT_VAD_OPTIONS.hangoverMs;
+    this.preRoll = new PreRollBuffer(
+      options.preRollMs ?? DEFAULT_VAD_OPTIONS.preRollMs,
+      this.sampleRate,
+    );
+    this.vad.onStateChange = (state) => {
+      if (this.currentMode === 'voice-activity') this.setState(state);
+    };
+  }
+
+  get mode(): InputMode {
+    return this.currentMode;
+  }
+
+  set mode(mode: InputMode) {
+    if (mode === this.currentMode) return;
+    this.setTalking(false);
+    this.currentMode = mode;
+    this.vad.reset();
+    this.preRoll.clear();
+    this.setState('silence');
+  }
+
+  get state(): VadState {
+    return this.currentState;
+  }
+
+  /** Whether the talk key or button is held. */
+  get isTalking() {
+    return this.talking;
+  }
+
+  process(pcm: Int16Array) {
+    if (this.currentMode === 'voice-activity') {
+      for (const chunk of this.vad.process(pcm)) this.onSend(chunk);
+      return;
+    }
+    if (this.talking) {
+      this.onSend(pcm);
+    } else {
+      this.preRoll.push(pcm);
+    }
+  }
+
+  /** Presses or releases push-to-talk. Ignored in voice-activity mode. */
+  setTalking(talking: boolean) {
+    if (this.currentMode !== 'push-to-talk' || talking === this.talking) {
+      return;
+    }
+    this.talking = talking;
+    if (talking) {
+      for (const chunk of this.preRoll.take()) this.onSend(chunk);
+      this.setState('speech');
+      return;
+    }
+    this.setState('hangover');
+    this.onSend(
+      new Int16Array(Math.round((this.hangoverMs / 1000) * this.sampleRate)),
+    );
+    this.setState('silence');
+  }
+
+  reset() {
+    this.talking = false;
+    this.vad.reset();
+    this.preRoll.clear();
+    this.setState('silence');
+  }
+
+  private setState(state: VadState) {
+    if (state === this.currentState) return;
+    this.currentState = state;
+    this.onStateChange(state);
+  }
+}
@@ -0,0 +1,189 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import {LitElement, css, html} from 'lit';
+import {customElement, property} from 'lit/decorators.js';
+import type {InputProcessingOptions} from './input-processing';
+
+type Toggle = {
+  [K in keyof InputProcessingOptions]: InputProcessingOptions[K] extends boolean
+    ? K
+    : never;
+}[keyof InputProcessingOptions];
+
+const BROWSER_STAGES: [Toggle, string][] = [
+  ['echoCancellation', 'Echo cancellation'],
+  ['noiseSuppression', 'Noise suppression'],
+  ['autoGainControl', 'Automatic gain'],
+];
+
+/**
+ * Toggles for the browser's and our own input processing, an A/B switch
+ * that bypasses our stages and a monitor toggle. Fires
+ * `input-processing-change` with the new options as soon as one changes.
+ */
+@customElement('gdm-input-processing-picker')
+export class GdmInputProcessingPicker extends LitElement {
+  @property({attribute: false}) options!: InputProcessingOptions;
+  /** False where the noise gate cannot run. */
+  @property({type: Boolean, attribute: 'gate-supported'})
+  gateSupported = true;
+
+  static styles = css`
+    :host {
+      display: block;
+    }
+
+    fieldset {
+      display: flex;
+      flex-direction: column;
+      gap: 4px;
+      margin: 0 0 12px;
+      border: 1px solid rgba(255, 255, 255, 0.2);
+      border-radius: 8px;
+    }
+
+    label {
+      display: flex;
+      align-items: center;
+      gap: 6px;
+    }
+
+    input[type='number'] {
+      width: 5em;
+      margin-left: auto;
+      font: inherit;
+      color: inherit;
+      background: rgba(255, 255, 255, 0.1);
+      border: 1px solid rgba(255, 255, 255, 0.2);
+      border-radius: 6px;
+      padding: 2px 6px;
+    }
+
+    .ab {
+      display: flex;
+      margin: 0 0 8px;
+    }
+
+    .ab button {
+      flex: 1;
+      font: inherit;
+      color: white;
+      background: rgba(255, 255, 255, 0.1);
+      border: 1px solid rgba(255, 255, 255, 0.2);
+      padding: 6px;
+      cursor: pointer;
+    }
+
+    .ab button:first-child {
+      border-radius: 8px 0 0 8px;
+    }
+
+    .ab button:last-child {
+      border-radius: 0 8px 8px 0;
+    }
+
+    .ab button[aria-pressed='true'] {
+      background: rgba(255, 255, 255, 0.3);
+    }
+
+    .hint {
+      font-size: 12px;
+      opacity: 0.7;
+    }
+  `;
+
+  private change(patch: Partial<InputProcessingOptions>) {
+    this.dispatchEvent(
+      new CustomEvent<InputProcessingOptions>('input-processing-change', {
+        detail: {...this.options, ...patch},
+        bubbles: true,
+        composed: true,
+      }),
+    );
+  }
+
+  private renderToggle(key: Toggle, label: string, disabled = false) {
+    return html`<label>
+      <input
+        type="checkbox"
+        .checked=${this.options[key]}
+        ?disabled=${disabled}
+        @change=${(e: Event) =>
+          this.change({[key]: (e.target as HTMLInputElement).checked})} />
+      ${label}
+    </label>`;
+  }
+
+  private renderNumber(
+    key: 'highPassHz' | 'noiseGateDb',
+    label: string,
+    min: number,
+    max: number,
+  ) {
+    return html`<label>
+      ${label}
+      <input
+        type="number"
+        min=${min}
+        max=${max}
+        .value=${String(this.options[key])}
+        @change=${(e: Event) => {
+          const value = (e.target as HTMLInputElement).valueAsNumber;
+          if (Number.isFinite(value)) {
+            this.change({[key]: Math.min(max, Math.max(min, value))});
+          }
+        }} />
+    </label>`;
+  }
+
+  protected render() {
+    if (!this.options) return html``;
+    const {bypass} = this.options;
+    return html`
+      <fieldset>
+        <legend>Browser (reopens the microphone)</legend>
+        ${BROWSER_STAGES.map(([key, label]) => this.renderToggle(key, label))}
+      </fieldset>
+      <fieldset>
+        <legend>Processing</legend>
+        ${this.renderToggle('highPass', 'High-pass filter', bypass)}
+        ${this.renderNumber('highPassHz', 'Cutoff (Hz)', 20, 500)}
+        ${this.renderToggle('compressor', 'Compressor', bypass)}
+        ${this.renderToggle('limiter', 'Limiter', bypass)}
+        ${this.renderToggle(
+          'noiseGate',
+          'Noise gate',
+          bypass || !this.gateSupported,
+        )}
+        ${this.renderNumber('noiseGateDb', 'Gate threshold (dB)', -90, -10)}
+      </fieldset>
+      <div class="ab" role="group" aria-label="Compare">
+        <button
+          aria-pressed=${!bypass}
+          @click=${() => this.change({bypass: false})}>
+          A: processed
+        </button>
+        <button
+          aria-pressed=${bypass}
+          @click=${() => this.change({bypass: true})}>
+          B: bypassed
+        </button>
+      </div>
+      ${this.renderToggle('monitor', 'Listen to the microphone')}
+      <span class="hint">
+        Monitoring plays what is sent to the model. Use headphones to avoid
+        feedback.
+      </span>
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'gdm-input-processing-picker': GdmInputProcessingPicker;
+  }
+}
@@ -0,0 +1,228 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {loadWorkletModule} from './audio-capture';
+import {createLogger} from './logger';
+import {name as gateName, source as gateSource} from './noise-gate-worklet';
+
+const log = createLogger('capture');
+
+/**
+ * How microphone audio is cleaned up before it is visualized and sent.
+ * The first three are asked of the browser when the microphone is opened;
+ * the rest are Web Audio stages of an {@link InputChain}.
+ */
+export interface InputProcessingOptions {
+  echoCancellation: boolean;
+  noiseSuppression: boolean;
+  autoGainControl: boolean;
+  /** Removes rumble and hum below `highPassHz`. */
+  highPass: boolean;
+  highPassHz: number;
+  /** Evens out loud and quiet speech. */
+  compressor: boolean;
+  /** Keeps peaks below -1 dBFS. */
+  limiter: boolean;
+  /** Silences the input while its level is below `noiseGateDb`. */
+  noiseGate: boolean;
+  noiseGateDb: number;
+  /** Skips the Web Audio stages, to compare with the processed input. */
+  bypass: boolean;
+  /** Plays the input through the speakers. Use headphones. */
+  monitor: boolean;
+}
+
+export const DEFAULT_INPUT_PROCESSING: InputProcessingOptions = {
+  echoCancellation: true,
+  noiseSuppression: true,
+  autoGainControl: true,
+  highPass: true,
+  highPassHz: 80,
+  compressor: false,
+  limiter: true,
+  noiseGate: false,
+  noiseGateDb: -50,
+  bypass: false,
+  monitor: false,
+};
+
+/** The options that take effect when the microphone is opened. */
+export type BrowserProcessing = Pick<
+  InputProcessingOptions,
+  'echoCancellation' | 'noiseSuppression' | 'autoGainControl'
+>;
+
+export function browserProcessing(
+  options: InputProcessingOptions,
+): BrowserProcessing {
+  const {echoCancellation, noiseSuppression, autoGainControl} = options;
+  return {echoCancellation, noiseSuppression, autoGainControl};
+}
+
+const STORAGE_KEY = 'gdm-live-audio:input-processing';
+
+export function loadInputProcessing(): InputProcessingOptions {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (raw) {
+      // Monitoring is never restored, so the page does not start by
+      // playing the microphone back.
+      return {...DEFAULT_INPUT_PROCESSING, ...JSON.parse(raw), monitor: false};
+    }
+  } catch (e) {
+    log.warn('Could not read saved input processing:', e);
+  }
+  return {...DEFAULT_INPUT_PROCESSING};
+}
+
+export function saveInputProcessing(options: InputProcessingOptions) {
+  try {
+    const {monitor, ...saved} = options;
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(saved));
+  } catch (e) {
+    log.warn('Could not save input processing:', e);
+  }
+}
+
+/**
+ * The Web Audio stages between the microphone and everything that listens
+ * to it: high-pass filter, compressor, limiter and noise gate, in that
+ * order. Connect sources to `input` and listeners to `output`; stages can be
+ * toggled and bypassed at any time without reconnecting either.
+ *
+ * The noise gate runs in an AudioWorklet. Until its module has loaded, or
+ * where AudioWorklet is not available, the chain runs without it.
+ */
+export class InputChain {
+  readonly input: GainNode;
+  readonly output: GainNode;
+  /** Settles once the noise gate has loaded or is known to be unavailable. */
+  readonly ready: Promise<void>;
+
+  private options: InputProcessingOptions;
+  private readonly highPass: BiquadFilterNode;
+  private readonly compressor: DynamicsCompressorNode;
+  private readonly limiter: DynamicsCompressorNode;
+  private gate: AudioWorkletNode | null = null;
+  /** The nodes currently wired from `input` to `output`. */
+  private wired: AudioNode[] = [];
+  private monitoring = false;
+
+  constructor(
+    private readonly context: AudioContext,
+    options: Partial<InputProcessingOptions> = {},
+  ) {
+    this.options = {...DEFAULT_INPUT_PROCESSING, ...options};
+    this.input = context.createGain();
+    this.output = context.createGain();
+
+    this.highPass = context.createBiquadFilter();
+    this.highPass.type = 'highpass';
+    this.highPass.Q.value = Math.SQRT1_2;
+
+    this.compressor = context.createDynamicsCompressor();
+    this.compressor.threshold.value = -24;
+    this.compressor.knee.value = 12;
+    this.compressor.ratio.value = 4;
+    this.compressor.attack.value = 0.003;
+    this.compressor.release.value = 0.25;
+
+    this.limiter = context.createDynamicsCompressor();
+    this.limiter.threshold.value = -1;
+    this.limiter.knee.value = 0;
+    this.limiter.ratio.value = 20;
+    this.limiter.attack.value = 0.001;
+    this.limiter.release.value = 0.05;
+
+    this.configure(this.options);
+    this.ready = this.loadGate();
+  }
+
+  /** Whether the noise gate stage can be used in this browser. */
+  get gateAvailable(): boolean {
+    return this.gate !== null;
+  }
+
+  /** Applies new options, rewiring only if the set of stages changed. */
+  configure(options: Partial<InputProcessingOptions>) {
+    this.options = {...this.options, ...options};
+    const {highPassHz, noiseGateDb} = this.options;
+    this.highPass.frequency.setTargetAtTime(
+      highPassHz,
+      this.context.currentTime,
+      0.01,
+    );
+    this.gate?.parameters
+      .get('threshold')
+      ?.setValueAtTime(noiseGateDb, this.context.currentTime);
+    this.rewire();
+    this.setMonitoring(this.options.monitor);
+  }
+
+  private stages(): AudioNode[] {
+    const o = this.options;
+    if (o.bypass) return [];
+    const stages: AudioNode[] = [];
+    if (o.highPass) stages.push(this.highPass);
+    if (o.compressor) stages.push(this.compressor);
+    if (o.limiter) stages.push(this.limiter);
+    if (o.noiseGate && this.gate) stages.push(this.gate);
+    return stages;
+  }
+
+  private rewire() {
+    const stages = this.stages();
+    if (
+      stages.length === this.wired.length &&
+      stages.every((node, i) => node === this.wired[i])
+    ) {
+      return;
+    }
+    this.unwire();
+    let previous: AudioNode = this.input;
+    for (const node of stages) {
+      previous.connect(node);
+      previous = node;
+    }
+    previous.connect(this.output);
+    this.wired = stages;
+  }
+
+  private unwire() {
+    this.input.disconnect();
+    for (const node of this.wired) node.disconnect();
+    this.wired = [];
+  }
+
+  private setMonitoring(monitor: boolean) {
+    if (monitor === this.monitoring) return;
+    if (monitor) {
+      this.output.connect(this.context.destination);
+    } else {
+      this.output.disconnect(this.context.destination);
+    }
+    this.monitoring = monitor;
+  }
+
+  private async loadGate() {
+    if (!this.context.audioWorklet) {
+      log.warn('AudioWorklet unavailable, the noise gate is disabled.');
+      return;
+    }
+    try {
+      await loadWorkletModule(this.context, gateSource);
+    } catch (e) {
+      log.warn('Could not load the noise gate, it is disabled:', e);
+      return;
+    }
+    this.gate = new AudioWorkletNode(this.context, gateName, {
+      numberOfInputs: 1,
+      numberOfOutputs: 1,
+      channelCount: 1,
+      channelCountMode: 'explicit',
+      parameterData: {threshold: this.options.noiseGateDb},
+    });
+    this.rewire();
+  }
+}
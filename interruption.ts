@@ -0,0 +1,43 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type {PlaybackInterruption} from './playback-scheduler';
+
+/**
+ * server: the Live API detected the user talking over the model.
+ * client: the user cut the model off from the app, e.g. with Escape.
+ */
+export type InterruptionSource = 'server' | 'client';
+
+/** What happened to the model's turn when it was interrupted. */
+export interface InterruptionRecord extends PlaybackInterruption {
+  source: InterruptionSource;
+  /** Epoch milliseconds of the interruption. */
+  at: number;
+  /** Id of the transcript turn that was cut off, if there was one. */
+  turnId?: number;
+  /**
+   * Transcript the user heard and the rest. Transcription carries no
+   * timing, so the split is estimated from the share of audio played.
+   */
+  heardText: string;
+  discardedText: string;
+}
+
+/**
+ * Splits `text` after roughly `fraction` of its characters, moving the cut
+ * forward to the end of the word it falls in.
+ */
+export function splitHeardText(
+  text: string,
+  fraction: number,
+): {heard: string; discarded: string} {
+  const clamped = Math.min(1, Math.max(0, fraction));
+  let cut = Math.round(text.length * clamped);
+  if (cut > 0 && cut < text.length) {
+    const space = text.slice(cut).search(/\s/);
+    cut = space === -1 ? text.length : cut + space;
+  }
+  return {heard: text.slice(0, cut), discarded: text.slice(cut)};
+}
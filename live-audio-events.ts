@@ -0,0 +1,57 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type {ConnectionState} from './connection';
+import type {LiveErrorKind, RecoveryAction} from './errors';
+import type {InterruptionRecord} from './interruption';
+import type {TranscriptTurn} from './transcript';
+
+export interface StateChangeDetail {
+  connectionState: ConnectionState;
+  previous: ConnectionState;
+  /** Whether the microphone is being captured. */
+  recording: boolean;
+}
+
+export interface TranscriptDetail {
+  turns: readonly TranscriptTurn[];
+}
+
+export interface TurnDetail {
+  /** A copy of the turn as it was when the event fired. */
+  turn: TranscriptTurn;
+}
+
+export interface ErrorDetail {
+  kind: LiveErrorKind;
+  /** What the user is told. */
+  message: string;
+  /** Technical detail, e.g. the browser's message or a close reason. */
+  detail: string;
+  /** Way out offered in the UI, if any. */
+  action?: RecoveryAction;
+  closeCode?: number;
+}
+
+/**
+ * Events of `<gdm-live-audio>`, by type:
+ *
+ * - `statechange`: the connection state changed, or recording started or
+ *   stopped.
+ * - `transcript`: the transcript changed; `turns` is all of it.
+ * - `turnstart`: a user or model turn appeared in the transcript.
+ * - `turnend`: a turn was closed. A user turn closes once the model starts
+ *   answering, a model turn once the server completes or interrupts it.
+ * - `error`: something failed; it is also listed on screen with its
+ *   recovery action until resolved or dismissed.
+ * - `interrupted`: the model was cut off, by the server or by `bargeIn()`.
+ */
+export interface GdmLiveAudioEventMap {
+  statechange: CustomEvent<StateChangeDetail>;
+  transcript: CustomEvent<TranscriptDetail>;
+  turnstart: CustomEvent<TurnDetail>;
+  turnend: CustomEvent<TurnDetail>;
+  error: CustomEvent<ErrorDetail>;
+  interrupted: CustomEvent<InterruptionRecord>;
+}
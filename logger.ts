@@ -0,0 +1,247 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent';
+
+export const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error', 'silent'];
+
+export interface LogEntry {
+  /** Epoch milliseconds. */
+  time: number;
+  level: Exclude<LogLevel, 'silent'>;
+  namespace: string;
+  message: string;
+  /** Extra arguments, redacted. */
+  data: unknown[];
+}
+
+export interface Logger {
+  debug(message: string, ...data: unknown[]): void;
+  info(message: string, ...data: unknown[]): void;
+  warn(message: string, ...data: unknown[]): void;
+  error(message: string, ...data: unknown[]): void;
+}
+
+/**
+ * Which levels reach the console: a default level and overrides for some
+ * namespaces. Written as `info` or `warn,session:debug,connection:info`.
+ */
+export interface LogConfig {
+  level: LogLevel;
+  namespaces: Record<string, LogLevel>;
+}
+
+export const DEFAULT_LOG_CONFIG: LogConfig = {level: 'info', namespaces: {}};
+
+const PREFIX = '[GDM Live Audio]';
+const STORAGE_KEY = 'gdm-live-audio:log';
+/** URL parameter that overrides the saved config, e.g. `?log=debug`. */
+const URL_PARAM = 'log';
+/** Entries kept for diagnostics, whatever reaches the console. */
+const BUFFER_SIZE = 500;
+/** Strings longer than this under a `data` key are taken for payloads. */
+const MAX_DATA_LENGTH = 64;
+const MAX_DEPTH = 10;
+const SECRET_KEY = /^(api_?key|key|token|secret|password|authorization|access_token)$/i;
+const API_KEY = /AIza[0-9A-Za-z_-]{35}/g;
+const KEY_PARAM = /([?&](?:key|token|access_token)=)[^&#\s]+/gi;
+
+const RANK: Record<LogLevel, number> = {
+  debug: 0,
+  info: 1,
+  warn: 2,
+  error: 3,
+  silent: 4,
+};
+
+let config: LogConfig = DEFAULT_LOG_CONFIG;
+const buffer: LogEntry[] = [];
+let next = 0;
+
+function isLevel(value: string): value is LogLevel {
+  return (LOG_LEVELS as string[]).includes(value);
+}
+
+/** Reads a config string; parts that do not parse are ignored. */
+export function parseLogConfig(spec: string): LogConfig {
+  const parsed: LogConfig = {level: DEFAULT_LOG_CONFIG.level, namespaces: {}};
+  for (const part of spec.split(',')) {
+    const [first, second] = part.trim().toLowerCase().split(':');
+    if (second === undefined) {
+      if (isLevel(first)) parsed.level = first;
+    } else if (first && isLevel(second)) {
+      parsed.namespaces[first] = second;
+    }
+  }
+  return parsed;
+}
+
+export function formatLogConfig(c: LogConfig): string {
+  return [
+    c.level,
+    ...Object.entries(c.namespaces).map(([ns, level]) => `${ns}:${level}`),
+  ].join(',');
+}
+
+/** The config in the URL, else the saved one, else the default. */
+export function loadLogConfig(): LogConfig {
+  const fromUrl =
+    typeof location !== 'undefined'
+      ? new URLSearchParams(location.search).get(URL_PARAM)
+      : null;
+  if (fromUrl) return parseLogConfig(fromUrl);
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (raw) return parseLogConfig(raw);
+  } catch (e) {
+    console.warn(`${PREFIX} Could not read the saved log level:`, e);
+  }
+  return DEFAULT_LOG_CONFIG;
+}
+
+export function saveLogConfig(c: LogConfig) {
+  try {
+    localStorage.setItem(STORAGE_KEY, formatLogConfig(c));
+  } catch (e) {
+    console.warn(`${PREFIX} Could not save the log level:`, e);
+  }
+}
+
+export function getLogConfig(): LogConfig {
+  return config;
+}
+
+/** Changes what reaches the console from now on. */
+export function setLogConfig(c: LogConfig) {
+  config = c;
+}
+
+function scrub(text: string): string {
+  return text.replace(API_KEY, '[redacted]').replace(KEY_PARAM, '$1[redacted]');
+}
+
+/**
+ * A copy of `value` that is safe and cheap to log: secrets are masked,
+ * audio and image payloads are replaced by their size, and binary data,
+ * errors and events are summarized.
+ */
+export function redact(value: unknown, depth = 0, seen = new WeakSet()): unknown {
+  if (typeof value === 'string') return scrub(value);
+  if (value === null || typeof value !== 'object') return value;
+  if (seen.has(value)) return '[circular]';
+  if (value instanceof Error) {
+    return {
+      name: value.name,
+      message: scrub(value.message),
+      stack: value.stack && scrub(value.stack),
+    };
+  }
+  if (ArrayBuffer.isView(value)) {
+    return `[${value.constructor.name} ${value.byteLength} bytes]`;
+  }
+  if (value instanceof ArrayBuffer) return `[ArrayBuffer ${value.byteLength} bytes]`;
+  if (typeof Blob !== 'undefined' && value instanceof Blob) {
+    return `[Blob ${value.type || 'unknown'} ${value.size} bytes]`;
+  }
+  if (typeof Event !== 'undefined' && value instanceof Event) {
+    const e = value as Event & {code?: number; reason?: string; message?: string};
+    return redact(
+      {type: e.type, code: e.code, reason: e.reason, message: e.message},
+      depth,
+      seen,
+    );
+  }
+  if (depth >= MAX_DEPTH) return '[…]';
+  seen.add(value);
+  if (Array.isArray(value)) {
+    return value.map((item) => redact(item, depth + 1, seen));
+  }
+  const copy: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value)) {
+    if (SECRET_KEY.test(key) && item) {
+      copy[key] = '[redacted]';
+    } else if (
+      key === 'data' &&
+      typeof item === 'string' &&
+      item.length > MAX_DATA_LENGTH
+    ) {
+      copy[key] = `[${Math.floor((item.length * 3) / 4)} bytes]`;
+    } else {
+      copy[key] = redact(item, depth + 1, seen);
+    }
+  }
+  return copy;
+}
+
+function enabled(namespace: string, level: LogLevel) {
+  const threshold = config.namespaces[namespace] ?? config.level;
+  return RANK[level] >= RANK[threshold];
+}
+
+function write(
+  namespace: string,
+  level: LogEntry['level'],
+  message: string,
+  data: unknown[],
+) {
+  const entry: LogEntry = {
+    time: Date.now(),
+    level,
+    namespace,
+    message: scrub(message),
+    data: data.map((item) => redact(item)),
+  };
+  if (buffer.length < BUFFER_SIZE) {
+    buffer.push(entry);
+  } else {
+    buffer[next] = entry;
+  }
+  next = (next + 1) % BUFFER_SIZE;
+  if (enabled(namespace, level)) {
+    console[level](`${PREFIX} [${namespace}] ${entry.message}`, ...entry.data);
+  }
+}
+
+/** A logger for one subsystem, such as `session` or `capture`. */
+export function createLogger(namespace: string): Logger {
+  return {
+    debug: (message, ...data) => write(namespace, 'debug', message, data),
+    info: (message, ...data) => write(namespace, 'info', message, data),
+    warn: (message, ...data) => write(namespace, 'warn', message, data),
+    error: (message, ...data) => write(namespace, 'error', message, data),
+  };
+}
+
+/** The buffered entries, oldest first. All levels are kept. */
+export function logEntries(): LogEntry[] {
+  return buffer.length < BUFFER_SIZE
+    ? [...buffer]
+    : [...buffer.slice(next), ...buffer.slice(0, next)];
+}
+
+/**
+ * A plain text report for bug reports: `context` (e.g. the connection
+ * state and settings), then the buffered log.
+ */
+export function formatDiagnostics(context: Record<string, unknown> = {}): string {
+  const lines = [
+    `${PREFIX} diagnostics, ${new Date().toISOString()}`,
+    `User agent: ${typeof navigator !== 'undefined' ? navigator.userAgent : 'n/a'}`,
+    `Log level: ${formatLogConfig(config)}`,
+  ];
+  for (const [key, value] of Object.entries(context)) {
+    lines.push(`${key}: ${JSON.stringify(redact(value))}`);
+  }
+  lines.push('', 'Log:');
+  for (const entry of logEntries()) {
+    const data = entry.data.length ? ` ${JSON.stringify(entry.data)}` : '';
+    lines.push(
+      `${new Date(entry.time).toISOString()} ${entry.level.toUpperCase()} [${entry.namespace}] ${entry.message}${data}`,
+    );
+  }
+  return lines.join('\n') + '\n';
+}
+
+config = loadLogConfig();
@@ -0,0 +1,173 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import {LitElement, css, html} from 'lit';
+import {customElement, property, state} from 'lit/decorators.js';
+import type {SessionMetrics, SessionMetricsSnapshot} from './session-metrics';
+
+/** How often the figures are read while shown. */
+const REFRESH_MS = 500;
+/** Turns listed; the export has all of them. */
+const RECENT_TURNS = 5;
+
+function ms(value: number | null | undefined): string {
+  return value === null || value === undefined ? '–' : `${Math.round(value)} ms`;
+}
+
+function bytes(value: number): string {
+  if (value < 1024) return `${value} B`;
+  if (value < 1024 * 1024) return `${(value / 1024).toFixed(1)} KB`;
+  return `${(value / 1024 / 1024).toFixed(2)} MB`;
+}
+
+/**
+ * Debug overlay with the latency, jitter, traffic and reconnect figures of
+ * a SessionMetrics. Fires `metrics-export` with 'json' or 'csv'.
+ */
+@customElement('gdm-metrics-overlay')
+export class GdmMetricsOverlay extends LitElement {
+  @property({attribute: false}) metrics: SessionMetrics | null = null;
+
+  @state() private snapshot: SessionMetricsSnapshot | null = null;
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  static styles = css`
+    :host {
+      display: block;
+      width: 260px;
+      padding: 8px 10px;
+      box-sizing: border-box;
+      color: white;
+      font: 11px/1.4 monospace;
+      background-color: rgba(0, 0, 0, 0.7);
+      border: 1px solid rgba(255, 255, 255, 0.2);
+      border-radius: 8px;
+    }
+
+    dl {
+      display: grid;
+      grid-template-columns: auto 1fr;
+      gap: 0 8px;
+      margin: 0;
+    }
+
+    dt {
+      opacity: 0.7;
+    }
+
+    dd {
+      margin: 0;
+      text-align: right;
+    }
+
+    table {
+      width: 100%;
+      margin-top: 6px;
+      border-collapse: collapse;
+    }
+
+    th {
+      font-weight: normal;
+      opacity: 0.7;
+    }
+
+    th,
+    td {
+      text-align: right;
+    }
+
+    footer {
+      display: flex;
+      gap: 6px;
+      margin-top: 6px;
+    }
+
+    button {
+      font: inherit;
+      color: white;
+      background: rgba(255, 255, 255, 0.1);
+      border: 1px solid rgba(255, 255, 255, 0.2);
+      border-radius: 6px;
+      padding: 2px 8px;
+      cursor: pointer;
+    }
+  `;
+
+  connectedCallback() {
+    super.connectedCallback();
+    this.refresh();
+    this.timer = setInterval(() => this.refresh(), REFRESH_MS);
+  }
+
+  disconnectedCallback() {
+    if (this.timer !== null) clearInterval(this.timer);
+    this.timer = null;
+    super.disconnectedCallback();
+  }
+
+  private refresh() {
+    this.snapshot = this.metrics?.snapshot() ?? null;
+  }
+
+  private export(format: 'json' | 'csv') {
+    this.dispatchEvent(
+      new CustomEvent<'json' | 'csv'>('metrics-export', {
+        detail: format,
+        bubbles: true,
+        composed: true,
+      }),
+    );
+  }
+
+  protected render() {
+    const s = this.snapshot;
+    if (!s) return html``;
+    const recent = s.turns.slice(-RECENT_TURNS).reverse();
+    return html`
+      <dl aria-label="Session telemetry">
+        <dt>Latency last</dt>
+        <dd>${ms(s.latency.lastMs)}</dd>
+        <dt>Latency p50 / p95</dt>
+        <dd>${ms(s.latency.p50Ms)} / ${ms(s.latency.p95Ms)}</dd>
+        <dt>Chunk jitter</dt>
+        <dd>${ms(s.turns[s.turns.length - 1]?.jitterMs)}</dd>
+        <dt>Buffered / target</dt>
+        <dd>${ms(s.playback?.bufferedMs)} / ${ms(s.playback?.targetLatencyMs)}</dd>
+        <dt>Underruns / late</dt>
+        <dd>${s.playback?.underruns ?? 0} / ${s.playback?.lateChunks ?? 0}</dd>
+        <dt>Sent</dt>
+        <dd>${bytes(s.bytesSent)} (${s.messagesSent})</dd>
+        <dt>Received</dt>
+        <dd>${bytes(s.bytesReceived)} (${s.messagesReceived})</dd>
+        <dt>Reconnects</dt>
+        <dd>${s.reconnects} (${ms(s.downtimeMs)} down)</dd>
+      </dl>
+      ${recent.length
+        ? html`<table>
+            <tr><th>#</th><th>latency</th><th>audible</th><th>jitter</th></tr>
+            ${recent.map(
+              (t) => html`<tr>
+                <td>${t.index}${t.interrupted ? '*' : ''}</td>
+                <td>${ms(t.latencyMs)}</td>
+                <td>${ms(t.audibleLatencyMs)}</td>
+                <td>${ms(t.jitterMs)}</td>
+              </tr>`,
+            )}
+          </table>`
+        : ''}
+      <footer>
+        <button @click=${() => this.export('json')}>Export JSON</button>
+        <button @click=${() => this.export('csv')}>Export CSV</button>
+      </footer>
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'gdm-metrics-overlay': GdmMetricsOverlay;
+  }
+}
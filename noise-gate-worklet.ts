@@ -0,0 +1,69 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/**
+ * AudioWorklet processor that silences the microphone between words. The
+ * level is measured per render quantum; the gate opens above `threshold`
+ * (dBFS), holds for `holdMs` and closes once the level has stayed 6 dB
+ * below the threshold, fading in and out so it does not click.
+ *
+ * Kept as a string for the same reason as the capture processor.
+ */
+const name = 'noise-gate-processor';
+
+const source = `
+class NoiseGateProcessor extends AudioWorkletProcessor {
+  static get parameterDescriptors() {
+    return [
+      {name: 'threshold', defaultValue: -50, minValue: -100, maxValue: 0, automationRate: 'k-rate'},
+      {name: 'holdMs', defaultValue: 150, minValue: 0, maxValue: 2000, automationRate: 'k-rate'},
+    ];
+  }
+
+  constructor() {
+    super();
+    this.gain = 0;
+    this.open = false;
+    this.heldFor = 0;
+    // One-pole smoothing per sample: ~2 ms to open, ~60 ms to close.
+    this.attack = 1 - Math.exp(-1 / (0.002 * sampleRate));
+    this.release = 1 - Math.exp(-1 / (0.06 * sampleRate));
+  }
+
+  process(inputs, outputs, parameters) {
+    const input = inputs[0];
+    const output = outputs[0];
+    if (!input || input.length === 0) return true;
+    const samples = input[0];
+    let sum = 0;
+    for (let i = 0; i < samples.length; i++) sum += samples[i] * samples[i];
+    const db = 10 * Math.log10(sum / samples.length + 1e-12);
+    const threshold = parameters.threshold[0];
+    if (db >= threshold) {
+      this.open = true;
+      this.heldFor = 0;
+    } else if (this.open && db < threshold - 6) {
+      this.heldFor += (samples.length / sampleRate) * 1000;
+      if (this.heldFor >= parameters.holdMs[0]) this.open = false;
+    }
+    const target = this.open ? 1 : 0;
+    const rate = this.open ? this.attack : this.release;
+    for (let channel = 0; channel < output.length; channel++) {
+      const from = input[channel] || samples;
+      const to = output[channel];
+      let gain = this.gain;
+      for (let i = 0; i < to.length; i++) {
+        gain += (target - gain) * rate;
+        to[i] = from[i] * gain;
+      }
+      if (channel === output.length - 1) this.gain = gain;
+    }
+    return true;
+  }
+}
+
+registerProcessor('${name}', NoiseGateProcessor);
+`;
+
+export {name, source};
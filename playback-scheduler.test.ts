@@ -0,0 +1,189 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {beforeEach, describe, expect, it} from 'vitest';
+import {PlaybackScheduler} from './playback-scheduler';
+
+const SAMPLE_RATE = 24000;
+
+type AutomationEvent = {
+  type: 'set' | 'ramp';
+  value: number;
+  time: number;
+};
+
+class StubParam {
+  value = 1;
+  events: AutomationEvent[] = [];
+
+  setValueAtTime(value: number, time: number) {
+    this.events.push({type: 'set', value, time});
+  }
+
+  linearRampToValueAtTime(value: number, time: number) {
+    this.events.push({type: 'ramp', value, time});
+  }
+
+  cancelScheduledValues(time: number) {
+    this.events = this.events.filter((e) => e.time < time);
+  }
+}
+
+class StubSource {
+  buffer: {duration: number} | null = null;
+  startedAt = -1;
+  stoppedAt: number | null = null;
+  connect() {}
+  addEventListener() {}
+  start(time: number) {
+    this.startedAt = time;
+  }
+  stop(time = 0) {
+    this.stoppedAt = time;
+  }
+}
+
+/** An audio context whose clock only moves when a test sets `currentTime`. */
+class StubContext {
+  currentTime = 0;
+  sources: StubSource[] = [];
+  gains: {gain: StubParam}[] = [];
+
+  createBuffer(_channels: number, length: number, sampleRate: number) {
+    return {duration: length / sampleRate, copyToChannel() {}};
+  }
+
+  createBufferSource() {
+    const source = new StubSource();
+    this.sources.push(source);
+    return source;
+  }
+
+  createGain() {
+    const gain = {gain: new StubParam(), connect() {}, disconnect() {}};
+    this.gains.push(gain);
+    return gain;
+  }
+}
+
+/** A chunk of `ms` milliseconds of silence. */
+function chunk(ms: number) {
+  return new Int16Array((SAMPLE_RATE * ms) / 1000);
+}
+
+describe('PlaybackScheduler', () => {
+  let context: StubContext;
+  let scheduler: PlaybackScheduler;
+
+  beforeEach(() => {
+    context = new StubContext();
+    scheduler = new PlaybackScheduler(
+      context as unknown as BaseAudioContext,
+      {} as AudioNode,
+      {sampleRate: SAMPLE_RATE},
+    );
+  });
+
+  it('starts a run after the target latency and reports what is buffered', () => {
+    const delayMs = scheduler.enqueue(chunk(100));
+    expect(delayMs).toBeCloseTo(80);
+    scheduler.enqueue(chunk(100));
+    expect(context.sources[1].startedAt).toBeCloseTo(0.18);
+    const stats = scheduler.stats;
+    expect(stats.bufferedMs).toBeCloseTo(280);
+    expect(stats.chunksScheduled).toBe(2);
+    expect(stats.playing).toBe(true);
+    expect(stats.underruns).toBe(0);
+  });
+
+  it('counts an underrun when the buffer drains mid-turn', () => {
+    scheduler.enqueue(chunk(100));
+    context.currentTime = 0.5;
+    expect(scheduler.stats.bufferedMs).toBe(0);
+    const delayMs = scheduler.enqueue(chunk(100));
+    expect(scheduler.stats.underruns).toBe(1);
+    // The next run waits longer, by the underrun penalty.
+    expect(delayMs).toBeCloseTo(140);
+    expect(scheduler.stats.targetLatencyMs).toBeCloseTo(140);
+  });
+
+  it('does not count the gap between turns as an underrun', () => {
+    scheduler.enqueue(chunk(100));
+    scheduler.endTurn();
+    context.currentTime = 0.5;
+    scheduler.enqueue(chunk(100));
+    expect(scheduler.stats.underruns).toBe(0);
+  });
+
+  it('counts a chunk that arrives during the fade-out as late', () => {
+    scheduler.enqueue(chunk(100)); // 0.08 to 0.18, fading out from 0.172.
+    context.currentTime = 0.175;
+    scheduler.enqueue(chunk(100));
+    expect(scheduler.stats.lateChunks).toBe(1);
+    expect(scheduler.stats.underruns).toBe(0);
+    expect(context.sources[1].startedAt).toBeCloseTo(0.18);
+    // The late chunk fades in to meet the fade-out.
+    expect(context.gains[1].gain.events[0]).toEqual({
+      type: 'set',
+      value: 0,
+      time: 0.18,
+    });
+  });
+
+  it('keeps the fade-in of a short chunk when the next one arrives in time', () => {
+    scheduler.enqueue(chunk(10)); // Fades are 5 ms, half the chunk.
+    scheduler.enqueue(chunk(100));
+    const events = context.gains[0].gain.events;
+    expect(events).toContainEqual({type: 'ramp', value: 1, time: 0.085});
+    expect(events.some((e) => e.type === 'ramp' && e.value === 0)).toBe(false);
+  });
+
+  it('reports played, faded and discarded audio on interrupt', () => {
+    for (let i = 0; i < 3; i++) scheduler.enqueue(chunk(100));
+    // Spans 0.08-0.18, 0.18-0.28 and 0.28-0.38.
+    context.currentTime = 0.2;
+    const interruption = scheduler.interrupt(50);
+    expect(interruption.receivedMs).toBeCloseTo(300);
+    expect(interruption.playedMs).toBeCloseTo(120);
+    expect(interruption.fadedMs).toBeCloseTo(50);
+    expect(interruption.discardedMs).toBeCloseTo(130);
+    // The chunk that would start after the fade is stopped outright.
+    expect(context.sources[2].stoppedAt).toBe(0);
+    expect(context.sources[1].stoppedAt).toBeCloseTo(0.25);
+    expect(scheduler.stats.playing).toBe(false);
+  });
+
+  it('reports on the ended turn when its tail is interrupted', () => {
+    scheduler.enqueue(chunk(100));
+    scheduler.enqueue(chunk(100));
+    scheduler.endTurn();
+    expect(scheduler.turnInProgress).toBe(false);
+    context.currentTime = 0.2;
+    expect(scheduler.stats.playing).toBe(true);
+    const interruption = scheduler.interrupt(0);
+    expect(interruption.receivedMs).toBeCloseTo(200);
+    expect(interruption.playedMs).toBeCloseTo(120);
+    expect(interruption.discardedMs).toBeCloseTo(80);
+  });
+
+  it('forgets the previous turn once the next one starts', () => {
+    scheduler.enqueue(chunk(100));
+    scheduler.endTurn();
+    context.currentTime = 0.5;
+    scheduler.enqueue(chunk(100)); // 0.58 to 0.68.
+    expect(scheduler.turnInProgress).toBe(true);
+    expect(scheduler.interrupt(0).receivedMs).toBeCloseTo(100);
+  });
+
+  it('discards everything when interrupted before playback starts', () => {
+    scheduler.enqueue(chunk(100));
+    const interruption = scheduler.interrupt(0);
+    expect(interruption).toEqual({
+      receivedMs: expect.closeTo(100),
+      playedMs: 0,
+      fadedMs: 0,
+      discardedMs: expect.closeTo(100),
+    });
+  });
+});
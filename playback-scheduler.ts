@@ -0,0 +1,327 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {int16ToFloat32} from './wav';
+
+export interface PlaybackOptions {
+  sampleRate: number;
+  /** Lowest lead the jitter buffer keeps before starting playback. */
+  minLatencyMs: number;
+  /** Highest lead the jitter buffer will grow to. */
+  maxLatencyMs: number;
+  /** Fade applied where the stream breaks, so gaps do not click. */
+  crossfadeMs: number;
+  /** Extra lead added after each underrun; halves after a clean turn. */
+  underrunPenaltyMs: number;
+  /** Fade-out when the model is interrupted. */
+  interruptFadeMs: number;
+}
+
+export const DEFAULT_PLAYBACK_OPTIONS: PlaybackOptions = {
+  sampleRate: 24000,
+  minLatencyMs: 80,
+  maxLatencyMs: 600,
+  crossfadeMs: 8,
+  underrunPenaltyMs: 60,
+  interruptFadeMs: 120,
+};
+
+export interface PlaybackStats {
+  /** Audio scheduled but not yet played. */
+  bufferedMs: number;
+  /** Lead the next run of audio will start with. */
+  targetLatencyMs: number;
+  /** Smoothed lateness of chunks relative to the audio before them. */
+  jitterMs: number;
+  /** Times playback ran dry in the middle of a turn. */
+  underruns: number;
+  /** Chunks that arrived while the previous one was already fading out. */
+  lateChunks: number;
+  chunksScheduled: number;
+  playing: boolean;
+}
+
+/** How much of the interrupted turn's audio was played, on the audio clock. */
+export interface PlaybackInterruption {
+  /** Audio of the turn received so far. */
+  receivedMs: number;
+  /** Played at full volume before the interruption. */
+  playedMs: number;
+  /** Played while fading out. */
+  fadedMs: number;
+  /** Never played. */
+  discardedMs: number;
+}
+
+interface ScheduledChunk {
+  source: AudioBufferSourceNode;
+  gain: GainNode;
+  start: number;
+  end: number;
+}
+
+/**
+ * Plays the model's PCM stream without gaps.
+ *
+ * Chunks are queued back to back on the audio clock. A run of audio starts
+ * only once there is a lead of `targetLatencyMs`, which follows the measured
+ * arrival jitter and grows after underruns. Each chunk is scheduled to fade
+ * out at its end; the fade is cancelled when the next chunk arrives in time,
+ * so only seams where the stream actually breaks are faded.
+ */
+export class PlaybackScheduler {
+  /** Called after every scheduled chunk. */
+  onStats: (stats: PlaybackStats) => void = () => {};
+
+  private readonly options: PlaybackOptions;
+  private chunks: ScheduledChunk[] = [];
+  /**
+   * Where the chunks of the current turn sit on the audio clock. Kept after
+   * the turn ends, while its tail may still be playing, until the next turn
+   * starts.
+   */
+  private turnSpans: {start: number; end: number}[] = [];
+  /** End of the last scheduled chunk on the audio clock; 0 when stopped. */
+  private nextStartTime = 0;
+  /** Whether a turn is in progress, so a dry buffer counts as an underrun. */
+  private inTurn = false;
+  private turnHadUnderrun = false;
+  private lastArrival = -1;
+  private lastDurationMs = 0;
+  private jitter = 0;
+  private penalty = 0;
+  private underruns = 0;
+  private lateChunks = 0;
+  private chunksScheduled = 0;
+
+  constructor(
+    private readonly context: BaseAudioContext,
+    private readonly destination: AudioNode,
+    options: Partial<PlaybackOptions> = {},
+  ) {
+    this.options = {...DEFAULT_PLAYBACK_OPTIONS, ...options};
+  }
+
+  get targetLatencyMs(): number {
+    const {minLatencyMs, maxLatencyMs} = this.options;
+    const target = minLatencyMs + 3 * this.jitter + this.penalty;
+    return Math.min(maxLatencyMs, Math.max(minLatencyMs, target));
+  }
+
+  /**
+   * Whether audio of a turn has arrived that has not yet been ended by
+   * `endTurn` or `interrupt`. False while only the tail of an ended turn
+   * is playing.
+   */
+  get turnInProgress(): boolean {
+    return this.inTurn;
+  }
+
+  get stats(): PlaybackStats {
+    return {
+      bufferedMs: Math.max(
+        0,
+        (this.nextStartTime - this.context.currentTime) * 1000,
+      ),
+      targetLatencyMs: this.targetLatencyMs,
+      jitterMs: this.jitter,
+      underruns: this.underruns,
+      lateChunks: this.lateChunks,
+      chunksScheduled: this.chunksScheduled,
+      playing: this.chunks.length > 0,
+    };
+  }
+
+  /**
+   * Schedules a chunk of 16-bit mono PCM. Returns how long from now, in ms,
+   * until it starts playing.
+   */
+  enqueue(pcm: Int16Array): number {
+    const now = this.context.currentTime;
+    const fade = this.options.crossfadeMs / 1000;
+    const durationMs = (pcm.length / this.options.sampleRate) * 1000;
+    this.trackJitter(durationMs);
+
+    let start: number;
+    let contiguous = false;
+    if (this.nextStartTime > now + fade) {
+      // In time: play right after the previous chunk and keep it at full gain.
+      start = this.nextStartTime;
+      contiguous = true;
+      this.cancelFadeOut(this.chunks[this.chunks.length - 1]);
+    } else if (this.nextStartTime > now) {
+      // The previous chunk has started to fade; join it with a fade-in.
+      start = this.nextStartTime;
+      this.lateChunks++;
+    } else {
+      if (this.inTurn && this.nextStartTime > 0) {
+        this.underruns++;
+        this.turnHadUnderrun = true;
+        this.penalty += this.options.underrunPenaltyMs;
+      }
+      start = now + this.targetLatencyMs / 1000;
+    }
+
+    if (!this.inTurn) this.turnSpans = [];
+    const buffer = this.context.createBuffer(
+      1,
+      pcm.length,
+      this.options.sampleRate,
+    );
+    buffer.copyToChannel(int16ToFloat32(pcm), 0);
+    const source = this.context.createBufferSource();
+    source.buffer = buffer;
+    const gain = this.context.createGain();
+    source.connect(gain);
+    gain.connect(this.destination);
+
+    const end = start + buffer.duration;
+    const edge = this.fadeLength(buffer.duration);
+    if (contiguous) {
+      gain.gain.setValueAtTime(1, start);
+    } else {
+      gain.gain.setValueAtTime(0, start);
+      gain.gain.linearRampToValueAtTime(1, start + edge);
+    }
+    gain.gain.setValueAtTime(1, end - edge);
+    gain.gain.linearRampToValueAtTime(0, end);
+
+    const chunk: ScheduledChunk = {source, gain, start, end};
+    source.addEventListener('ended', () => {
+      this.chunks = this.chunks.filter((c) => c !== chunk);
+      gain.disconnect();
+    });
+    source.start(start);
+    this.chunks.push(chunk);
+    this.turnSpans.push({start, end});
+    this.nextStartTime = end;
+    this.inTurn = true;
+    this.chunksScheduled++;
+    this.onStats(this.stats);
+    return (start - now) * 1000;
+  }
+
+  /**
+   * Marks the end of the model's turn. The gap before the next turn is not
+   * an underrun, and a clean turn lets the latency shrink back. An
+   * `interrupt` while the rest of the turn plays still reports on it.
+   */
+  endTurn() {
+    this.inTurn = false;
+    this.lastArrival = -1;
+    if (!this.turnHadUnderrun) this.penalty /= 2;
+    this.turnHadUnderrun = false;
+  }
+
+  /**
+   * Fades out everything that is playing or scheduled over `fadeMs` and
+   * reports how much of the turn was heard.
+   */
+  interrupt(fadeMs = this.options.interruptFadeMs): PlaybackInterruption {
+    const now = this.context.currentTime;
+    const fadeEnd = now + Math.max(0, fadeMs) / 1000;
+    for (const {source, gain, start} of this.chunks) {
+      const param = gain.gain;
+      if (start >= fadeEnd) {
+        source.stop();
+        continue;
+      }
+      if (param.cancelAndHoldAtTime) {
+        param.cancelAndHoldAtTime(now);
+      } else {
+        param.cancelScheduledValues(now);
+        param.setValueAtTime(param.value, now);
+      }
+      param.linearRampToValueAtTime(0, fadeEnd);
+      source.stop(fadeEnd);
+    }
+
+    const heardBy = (t: number) =>
+      this.turnSpans.reduce(
+        (sum, span) =>
+          sum + Math.min(span.end, Math.max(span.start, t)) - span.start,
+        0,
+      );
+    const received = this.turnSpans.reduce(
+      (sum, span) => sum + span.end - span.start,
+      0,
+    );
+    const played = heardBy(now);
+    const faded = heardBy(fadeEnd) - played;
+    const interruption: PlaybackInterruption = {
+      receivedMs: received * 1000,
+      playedMs: played * 1000,
+      fadedMs: faded * 1000,
+      discardedMs: (received - played - faded) * 1000,
+    };
+
+    // Sources clean up after themselves once the fade has ended.
+    this.chunks = [];
+    this.turnSpans = [];
+    this.nextStartTime = 0;
+    this.inTurn = false;
+    this.lastArrival = -1;
+    return interruption;
+  }
+
+  /** Stops everything that is playing or scheduled at once. */
+  stop() {
+    for (const {source, gain} of this.chunks) {
+      try {
+        source.stop();
+      } catch {
+        // Never started.
+      }
+      gain.disconnect();
+    }
+    this.chunks = [];
+    this.turnSpans = [];
+    this.nextStartTime = 0;
+    this.inTurn = false;
+    this.lastArrival = -1;
+  }
+
+  /** Forgets stats and adaptation, e.g. for a new session. */
+  reset() {
+    this.stop();
+    this.jitter = 0;
+    this.penalty = 0;
+    this.underruns = 0;
+    this.lateChunks = 0;
+    this.chunksScheduled = 0;
+    this.onStats(this.stats);
+  }
+
+  /**
+   * Interarrival jitter, smoothed as in RFC 3550, but only counting chunks
+   * that arrive later than the audio before them lasts. The server sends
+   * faster than real time, and early chunks only add to the lead.
+   */
+  private trackJitter(durationMs: number) {
+    const arrival = performance.now();
+    if (this.lastArrival >= 0) {
+      const lateness = Math.max(
+        0,
+        arrival - this.lastArrival - this.lastDurationMs,
+      );
+      this.jitter += (lateness - this.jitter) / 16;
+    }
+    this.lastArrival = arrival;
+    this.lastDurationMs = durationMs;
+  }
+
+  /**
+   * Drops the ramp to 0 that ends `chunk`, so it holds full gain to its
+   * end. Only called before the fade-out starts. Events before the end, such
+   * as a fade-in that meets the fade-out in a short chunk, are kept.
+   */
+  private cancelFadeOut(chunk: ScheduledChunk | undefined) {
+    chunk?.gain.gain.cancelScheduledValues(chunk.end);
+  }
+
+  /** Fade length in seconds; at most half of a short chunk. */
+  private fadeLength(duration: number) {
+    return Math.min(this.options.crossfadeMs / 1000, duration / 2);
+  }
+}
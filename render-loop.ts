@@ -0,0 +1,67 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * A `requestAnimationFrame` loop for one element that can be stopped, and
+ * that pauses on its own while the tab is hidden or the element is scrolled
+ * or clipped out of view.
+ */
+export class RenderLoop {
+  private frame = 0;
+  private running = false;
+  private intersecting = true;
+  private observer: IntersectionObserver | null = null;
+  private readonly onVisibilityChange = () => this.schedule();
+
+  constructor(
+    private readonly element: Element,
+    private readonly tick: (time: number) => void,
+  ) {}
+
+  /** Whether frames are currently being drawn. */
+  get active(): boolean {
+    return this.frame !== 0;
+  }
+
+  start() {
+    if (this.running) return;
+    this.running = true;
+    document.addEventListener('visibilitychange', this.onVisibilityChange);
+    if (typeof IntersectionObserver !== 'undefined') {
+      this.observer = new IntersectionObserver((entries) => {
+        this.intersecting = entries[entries.length - 1].isIntersecting;
+        this.schedule();
+      });
+      this.observer.observe(this.element);
+    }
+    this.schedule();
+  }
+
+  stop() {
+    if (!this.running) return;
+    this.running = false;
+    document.removeEventListener('visibilitychange', this.onVisibilityChange);
+    this.observer?.disconnect();
+    this.observer = null;
+    this.intersecting = true;
+    this.schedule();
+  }
+
+  /** Starts or cancels the next frame to match the current state. */
+  private schedule() {
+    const wanted = this.running && !document.hidden && this.intersecting;
+    if (wanted && !this.frame) {
+      this.frame = requestAnimationFrame(this.step);
+    } else if (!wanted && this.frame) {
+      cancelAnimationFrame(this.frame);
+      this.frame = 0;
+    }
+  }
+
+  private readonly step = (time: number) => {
+    this.frame = requestAnimationFrame(this.step);
+    this.tick(time);
+  };
+}
@@ -0,0 +1,180 @@
+#!/usr/bin/env node
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Keeps the Gemini API key on the server. Browsers open a WebSocket to
+ * /live, and the proxy relays it to the Live API with the key attached, so
+ * the key never reaches the page.
+ *
+ * It also serves the built app from dist/ so one process is enough for a
+ * deployment:
+ *
+ *   npm run build && npm run proxy-server
+ *
+ * During development, run it next to `npm run dev`; the dev server forwards
+ * /live to it.
+ *
+ * Environment (also read from .env.local):
+ *   GEMINI_API_KEY    required
+ *   LIVE_PROXY_PORT   port to listen on, default 8787
+ *   ALLOWED_ORIGINS   comma-separated origins allowed to connect; defaults to
+ *                     localhost origins only
+ */
+
+import {createServer} from 'node:http';
+import {readFile} from 'node:fs/promises';
+import path from 'node:path';
+import {WebSocket, WebSocketServer} from 'ws';
+
+try {
+  process.loadEnvFile('.env.local');
+} catch {
+  // No .env.local; rely on the environment.
+}
+
+function argValue(name) {
+  const i = process.argv.indexOf(name);
+  return i > -1 ? process.argv[i + 1] : undefined;
+}
+
+const port = Number(argValue('--port') ?? process.env.LIVE_PROXY_PORT ?? 8787);
+const apiKey = process.env.GEMINI_API_KEY;
+if (!apiKey) {
+  console.error('[live-proxy] GEMINI_API_KEY is not set.');
+  process.exit(1);
+}
+
+const UPSTREAM_URL =
+  'wss://generativelanguage.googleapis.com/ws/google.ai.generativelanguage.v1beta.GenerativeService.BidiGenerateContent';
+
+const allowedOrigins = (process.env.ALLOWED_ORIGINS ?? '')
+  .split(',')
+  .map((origin) => origin.trim())
+  .filter(Boolean);
+
+const LOCAL_HOSTS = new Set(['localhost', '127.0.0.1', '[::1]']);
+
+function originAllowed(origin) {
+  if (!origin) return false;
+  if (allowedOrigins.length) return allowedOrigins.includes(origin);
+  try {
+    return LOCAL_HOSTS.has(new URL(origin).hostname);
+  } catch {
+    return false;
+  }
+}
+
+/** Keeps the key out of anything that gets logged. */
+function redact(text) {
+  return String(text).split(apiKey).join('***');
+}
+
+/** Close codes 1005, 1006 and 1015 describe a close but cannot be sent. */
+function closeSafely(ws, code, reason = '') {
+  if (ws.readyState === WebSocket.CONNECTING) {
+    ws.terminate();
+    return;
+  }
+  if (ws.readyState !== WebSocket.OPEN) return;
+  const sendable = code >= 1000 && code <= 4999 && ![1004, 1005, 1006, 1015].includes(code);
+  // Close reasons are limited to 123 bytes.
+  ws.close(sendable ? code : 1011, Buffer.from(reason).subarray(0, 123));
+}
+
+function relay(client, origin) {
+  console.log(`[live-proxy] Session opened from ${origin}`);
+  const upstream = new WebSocket(`${UPSTREAM_URL}?key=${encodeURIComponent(apiKey)}`);
+  const pending = [];
+
+  client.on('message', (data, isBinary) => {
+    if (upstream.readyState === WebSocket.OPEN) {
+      upstream.send(data, {binary: isBinary});
+    } else {
+      pending.push([data, isBinary]);
+    }
+  });
+  upstream.on('open', () => {
+    for (const [data, isBinary] of pending) upstream.send(data, {binary: isBinary});
+    pending.length = 0;
+  });
+  upstream.on('message', (data, isBinary) => {
+    if (client.readyState === WebSocket.OPEN) client.send(data, {binary: isBinary});
+  });
+
+  upstream.on('close', (code, reason) => {
+    console.log(`[live-proxy] Upstream closed: ${code} ${redact(reason)}`);
+    closeSafely(client, code, redact(reason));
+  });
+  upstream.on('error', (e) => {
+    console.error('[live-proxy] Upstream error:', redact(e.message));
+    closeSafely(client, 1011, 'Upstream error');
+  });
+  client.on('close', () => {
+    console.log('[live-proxy] Session closed by client');
+    closeSafely(upstream, 1000);
+  });
+  client.on('error', (e) => {
+    console.error('[live-proxy] Client error:', e.message);
+    closeSafely(upstream, 1000);
+  });
+}
+
+const STATIC_DIR = path.resolve('dist');
+const MIME_TYPES = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.json': 'application/json',
+  '.svg': 'image/svg+xml',
+  '.exr': 'application/octet-stream',
+};
+
+async function serveStatic(req, res) {
+  const {pathname} = new URL(req.url, 'http://localhost');
+  const file = path.join(STATIC_DIR, pathname === '/' ? 'index.html' : pathname);
+  if (!file.startsWith(STATIC_DIR + path.sep)) {
+    res.writeHead(403).end();
+    return;
+  }
+  try {
+    const body = await readFile(file);
+    res.writeHead(200, {
+      'Content-Type': MIME_TYPES[path.extname(file)] ?? 'application/octet-stream',
+    });
+    res.end(body);
+  } catch {
+    res.writeHead(404).end('Not found');
+  }
+}
+
+const server = createServer((req, res) => {
+  if (req.url === '/healthz') {
+    res.writeHead(200, {'Content-Type': 'text/plain'}).end('ok');
+    return;
+  }
+  if (req.method !== 'GET' && req.method !== 'HEAD') {
+    res.writeHead(405).end();
+    return;
+  }
+  void serveStatic(req, res);
+});
+
+const wss = new WebSocketServer({noServer: true});
+server.on('upgrade', (req, socket, head) => {
+  const {pathname} = new URL(req.url, 'http://localhost');
+  const origin = req.headers.origin;
+  if (pathname !== '/live' || !originAllowed(origin)) {
+    console.warn(`[live-proxy] Rejected upgrade to ${pathname} from ${origin ?? 'unknown origin'}`);
+    socket.write('HTTP/1.1 403 Forbidden\r\n\r\n');
+    socket.destroy();
+    return;
+  }
+  wss.handleUpgrade(req, socket, head, (client) => relay(client, origin));
+});
+
+server.listen(port, () => {
+  console.log(`[live-proxy] Listening on http://localhost:${port} (relay at /live)`);
+});
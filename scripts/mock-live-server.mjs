@@ -0,0 +1,227 @@
+#!/usr/bin/env node
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Local stand-in for the Gemini Live API, for offline development and CI.
+ *
+ * Accepts the JSON messages the app sends (setup, realtimeInput,
+ * clientContent, toolResponse) over a plain WebSocket and answers with
+ * LiveServerMessage objects: transcripts of what it "heard", canned 24 kHz
+ * PCM replies streamed in real time (or text replies when the session asks
+ * for the TEXT modality), and an interruption whenever the user talks over a
+ * reply.
+ *
+ *   npm run mock-server            # listens on ws://localhost:8765
+ *   npm run mock-server -- --port 9000
+ *
+ * Then open the app with ?transport=mock (or set LIVE_TRANSPORT=mock).
+ */
+
+import {WebSocketServer} from 'ws';
+
+const OUTPUT_SAMPLE_RATE = 24000;
+/** Length of each streamed PCM chunk. */
+const CHUNK_MS = 100;
+/** Mic RMS above which a chunk counts as speech. */
+const SPEECH_RMS = 0.02;
+/** Silence after speech that ends the user's turn. */
+const END_OF_SPEECH_MS = 700;
+/** Video frames this recent make the reply mention them. */
+const RECENT_FRAME_MS = 5000;
+
+const REPLIES = [
+  'Hello from the mock live server. I heard you loud and clear.',
+  'This reply is canned audio, streamed in small chunks like the real thing.',
+  'Talk over me to try an interruption.',
+];
+
+function argValue(name) {
+  const i = process.argv.indexOf(name);
+  return i > -1 ? process.argv[i + 1] : undefined;
+}
+
+const port = Number(argValue('--port') ?? process.env.MOCK_LIVE_PORT ?? 8765);
+
+/** Synthesizes a vaguely speech-like tone: a gliding pitch in syllables. */
+function synthesizeReply(text) {
+  const durationMs = Math.min(6000, 400 + text.length * 45);
+  const length = Math.round((durationMs / 1000) * OUTPUT_SAMPLE_RATE);
+  const pcm = new Int16Array(length);
+  let phase = 0;
+  for (let i = 0; i < length; i++) {
+    const t = i / OUTPUT_SAMPLE_RATE;
+    const pitch = 160 + 40 * Math.sin(2 * Math.PI * 0.7 * t);
+    phase += (2 * Math.PI * pitch) / OUTPUT_SAMPLE_RATE;
+    const syllable = Math.max(0, Math.sin(2 * Math.PI * 4 * t));
+    const fade = Math.min(1, t / 0.05, (length - i) / (0.05 * OUTPUT_SAMPLE_RATE));
+    pcm[i] = 0.3 * syllable * fade * Math.sin(phase) * 32767;
+  }
+  return pcm;
+}
+
+function pcmRms(base64) {
+  const bytes = Buffer.from(base64, 'base64');
+  const samples = new Int16Array(bytes.buffer, bytes.byteOffset, bytes.length >> 1);
+  let sum = 0;
+  for (const s of samples) sum += (s / 32768) ** 2;
+  return samples.length ? Math.sqrt(sum / samples.length) : 0;
+}
+
+function pcmDurationMs(base64, rate) {
+  return (((base64.length * 3) / 4 / 2) / rate) * 1000;
+}
+
+function handleConnection(ws) {
+  let turn = 0;
+  let speechMs = 0;
+  let lastSpeechAt = 0;
+  /** Timer of the reply being streamed, if any. */
+  let replyTimer = null;
+  let textOnly = false;
+  let framesSeen = 0;
+  let lastFrameAt = 0;
+
+  const send = (message) => {
+    if (ws.readyState === ws.OPEN) ws.send(JSON.stringify(message));
+  };
+
+  const stopReply = () => {
+    clearInterval(replyTimer);
+    replyTimer = null;
+  };
+
+  const interrupt = () => {
+    if (!replyTimer) return;
+    stopReply();
+    send({serverContent: {interrupted: true}});
+    send({serverContent: {turnComplete: true}});
+  };
+
+  /** Answers a user turn; `heard` is the transcript of a spoken one. */
+  const reply = (heard) => {
+    interrupt();
+    if (heard) {
+      send({serverContent: {inputTranscription: {text: heard, finished: true}}});
+    }
+
+    const text =
+      Date.now() - lastFrameAt < RECENT_FRAME_MS
+        ? `I can see the video you are sharing, ${framesSeen} frames so far.`
+        : REPLIES[turn++ % REPLIES.length];
+    const words = text.split(' ');
+
+    if (textOnly) {
+      let word = 0;
+      replyTimer = setInterval(() => {
+        const next = words.slice(word, word + 3).join(' ');
+        word += 3;
+        send({serverContent: {modelTurn: {parts: [{text: next + (word < words.length ? ' ' : '')}]}}});
+        if (word >= words.length) {
+          stopReply();
+          send({serverContent: {generationComplete: true}});
+          send({serverContent: {turnComplete: true}});
+        }
+      }, CHUNK_MS);
+      return;
+    }
+
+    const pcm = synthesizeReply(text);
+    const samplesPerChunk = (OUTPUT_SAMPLE_RATE * CHUNK_MS) / 1000;
+    const chunks = Math.ceil(pcm.length / samplesPerChunk);
+    let chunk = 0;
+    let word = 0;
+
+    replyTimer = setInterval(() => {
+      const slice = pcm.subarray(chunk * samplesPerChunk, (chunk + 1) * samplesPerChunk);
+      const data = Buffer.from(slice.buffer, slice.byteOffset, slice.byteLength);
+      send({
+        serverContent: {
+          modelTurn: {
+            parts: [{inlineData: {data: data.toString('base64'), mimeType: `audio/pcm;rate=${OUTPUT_SAMPLE_RATE}`}}],
+          },
+        },
+      });
+      chunk++;
+      // Spread the transcript over the audio.
+      const wordsDue = Math.ceil((chunk / chunks) * words.length);
+      if (wordsDue > word) {
+        send({serverContent: {outputTranscription: {text: words.slice(word, wordsDue).join(' ') + ' '}}});
+        word = wordsDue;
+      }
+      if (chunk >= chunks) {
+        stopReply();
+        send({serverContent: {generationComplete: true}});
+        send({serverContent: {turnComplete: true}});
+      }
+    }, CHUNK_MS);
+  };
+
+  // Ends the user's turn after a stretch of silence, also when the client
+  // stops sending audio altogether.
+  const endOfSpeech = setInterval(() => {
+    if (speechMs > 0 && Date.now() - lastSpeechAt > END_OF_SPEECH_MS) {
+      const seconds = (speechMs / 1000).toFixed(1);
+      speechMs = 0;
+      reply(`(mock transcript of ${seconds}s of speech)`);
+    }
+  }, 100);
+
+  ws.on('message', (raw) => {
+    let message;
+    try {
+      message = JSON.parse(raw.toString());
+    } catch {
+      console.warn('[mock-live-server] Ignoring non-JSON message');
+      return;
+    }
+
+    if (message.setup) {
+      const modalities = message.setup.generationConfig?.responseModalities ?? [];
+      textOnly = modalities.includes('TEXT') && !modalities.includes('AUDIO');
+      console.log(`[mock-live-server] Session set up for model ${message.setup.model}${textOnly ? ' (text replies)' : ''}`);
+      send({setupComplete: {}});
+    }
+
+    for (const media of message.realtimeInput?.mediaChunks ?? []) {
+      if (media.mimeType?.startsWith('image/')) {
+        framesSeen++;
+        lastFrameAt = Date.now();
+        continue;
+      }
+      const rate = /^audio\/pcm;rate=(\d+)/.exec(media.mimeType ?? '');
+      if (!rate || !media.data) continue;
+      if (pcmRms(media.data) > SPEECH_RMS) {
+        interrupt();
+        speechMs += pcmDurationMs(media.data, Number(rate[1]));
+        lastSpeechAt = Date.now();
+      }
+    }
+
+    // Typed turns are answered without echoing a transcript.
+    if (message.clientContent?.turns && message.clientContent.turnComplete !== false) {
+      reply(null);
+    }
+
+    if (message.toolResponse) {
+      console.log('[mock-live-server] Tool response:', JSON.stringify(message.toolResponse));
+    }
+  });
+
+  ws.on('close', () => {
+    stopReply();
+    clearInterval(endOfSpeech);
+    console.log('[mock-live-server] Client disconnected');
+  });
+}
+
+const server = new WebSocketServer({port});
+server.on('connection', (ws) => {
+  console.log('[mock-live-server] Client connected');
+  handleConnection(ws);
+});
+server.on('listening', () => {
+  console.log(`[mock-live-server] Listening on ws://localhost:${port}`);
+});
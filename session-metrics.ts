@@ -0,0 +1,330 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type {ConnectionState} from './connection';
+import type {PlaybackStats} from './playback-scheduler';
+import type {VadState} from './vad';
+
+/** What ended the user's side of a turn. */
+export type TurnTrigger = 'speech' | 'text';
+
+/** Timing of one model turn. Times are ms since the metrics started. */
+export interface TurnMetrics {
+  /** 1-based, in the order the turns started. */
+  index: number;
+  trigger: TurnTrigger | null;
+  /** When the user stopped speaking or sent text, if they did. */
+  userEndMs: number | null;
+  /** When the first audio chunk of the reply arrived. */
+  firstAudioMs: number | null;
+  /** From the end of user input to the first audio chunk. */
+  latencyMs: number | null;
+  /** The same plus the jitter buffer's lead: until the reply was audible. */
+  audibleLatencyMs: number | null;
+  chunks: number;
+  /** Audio received, in ms of playback. */
+  audioMs: number;
+  /** Smoothed deviation of chunk arrival from the audio before it. */
+  jitterMs: number;
+  /** Longest wait between two chunks. */
+  maxGapMs: number;
+  interrupted: boolean;
+  endMs: number;
+}
+
+export interface LatencySummary {
+  count: number;
+  lastMs: number | null;
+  meanMs: number | null;
+  p50Ms: number | null;
+  p95Ms: number | null;
+}
+
+export interface SessionMetricsSnapshot {
+  /** Epoch ms when the metrics started. */
+  startedAt: number;
+  durationMs: number;
+  /** Approximate wire bytes, as serialized JSON. */
+  bytesSent: number;
+  bytesReceived: number;
+  messagesSent: number;
+  messagesReceived: number;
+  /** Times the connection dropped and was retried. */
+  reconnects: number;
+  reconnectAttempts: number;
+  /** Time spent reconnecting. */
+  downtimeMs: number;
+  latency: LatencySummary;
+  /** Last stats reported by the playback scheduler. */
+  playback: PlaybackStats | null;
+  turns: TurnMetrics[];
+}
+
+/** Turns kept for export; older ones are dropped. */
+const MAX_TURNS = 1000;
+
+/** Value at fraction `q` of ascending `sorted`, by linear interpolation. */
+function quantile(sorted: number[], q: number): number {
+  const pos = (sorted.length - 1) * q;
+  const lower = Math.floor(pos);
+  const upper = Math.ceil(pos);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (pos - lower);
+}
+
+export function summarizeLatency(turns: readonly TurnMetrics[]): LatencySummary {
+  const values = turns
+    .map((t) => t.latencyMs)
+    .filter((v): v is number => v !== null);
+  if (!values.length) {
+    return {count: 0, lastMs: null, meanMs: null, p50Ms: null, p95Ms: null};
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  return {
+    count: values.length,
+    lastMs: values[values.length - 1],
+    meanMs: values.reduce((sum, v) => sum + v, 0) / values.length,
+    p50Ms: quantile(sorted, 0.5),
+    p95Ms: quantile(sorted, 0.95),
+  };
+}
+
+const CSV_COLUMNS: (keyof TurnMetrics)[] = [
+  'index',
+  'trigger',
+  'userEndMs',
+  'firstAudioMs',
+  'latencyMs',
+  'audibleLatencyMs',
+  'chunks',
+  'audioMs',
+  'jitterMs',
+  'maxGapMs',
+  'interrupted',
+  'endMs',
+];
+
+/** One row per turn, for spreadsheets. Durations are rounded to 0.1 ms. */
+export function turnsToCsv(turns: readonly TurnMetrics[]): string {
+  const rows = turns.map((turn) =>
+    CSV_COLUMNS.map((column) => {
+      const value = turn[column];
+      if (value === null) return '';
+      if (typeof value === 'number') return String(Math.round(value * 10) / 10);
+      return String(value);
+    }).join(','),
+  );
+  return [CSV_COLUMNS.join(','), ...rows].join('\n') + '\n';
+}
+
+/**
+ * Measures how responsive a session is. Fed by the capture path (when the
+ * user stops speaking), the connection (traffic and reconnects) and the
+ * playback path (model audio arriving), it keeps per-turn latency and
+ * chunk jitter and session totals.
+ */
+export class SessionMetrics {
+  private startedAt = Date.now();
+  private origin: number;
+  private bytesSent = 0;
+  private bytesReceived = 0;
+  private messagesSent = 0;
+  private messagesReceived = 0;
+  private reconnects = 0;
+  private reconnectAttempts = 0;
+  private downtimeMs = 0;
+  private reconnectingSince: number | null = null;
+  private playback: PlaybackStats | null = null;
+  private turns: TurnMetrics[] = [];
+  /** Model turn whose audio is arriving. */
+  private current: TurnMetrics | null = null;
+  /** End of user input not yet answered. */
+  private pending: {trigger: TurnTrigger; at: number} | null = null;
+  private speaking = false;
+  /** Set when a turn was cut off, until the server's turnComplete for it. */
+  private cutOff = false;
+  private lastArrival = -1;
+  private lastDurationMs = 0;
+
+  constructor(private readonly now: () => number = () => performance.now()) {
+    this.origin = now();
+  }
+
+  /** Clears everything and starts measuring afresh. */
+  reset() {
+    this.startedAt = Date.now();
+    this.origin = this.now();
+    this.bytesSent = 0;
+    this.bytesReceived = 0;
+    this.messagesSent = 0;
+    this.messagesReceived = 0;
+    this.reconnects = 0;
+    this.reconnectAttempts = 0;
+    this.downtimeMs = 0;
+    this.reconnectingSince = null;
+    this.playback = null;
+    this.turns = [];
+    this.current = null;
+    this.pending = null;
+    this.speaking = false;
+    this.cutOff = false;
+    this.lastArrival = -1;
+  }
+
+  recordSent(bytes: number) {
+    this.bytesSent += bytes;
+    this.messagesSent++;
+  }
+
+  recordReceived(bytes: number) {
+    this.bytesReceived += bytes;
+    this.messagesReceived++;
+  }
+
+  /**
+   * Follows the input gate. Speech ending, when the VAD enters its hangover
+   * or push-to-talk is released, starts the latency clock.
+   */
+  recordInputState(state: VadState) {
+    if (state === 'speech') {
+      this.speaking = true;
+      return;
+    }
+    if (!this.speaking) return;
+    this.speaking = false;
+    this.pending = {trigger: 'speech', at: this.elapsed()};
+  }
+
+  /** A typed message was sent; the reply is timed from now. */
+  recordTextSent() {
+    this.pending = {trigger: 'text', at: this.elapsed()};
+  }
+
+  /**
+   * A chunk of model audio arrived. `durationMs` is its length and
+   * `delayMs` how long until playback scheduled it to start.
+   */
+  recordModelAudio(durationMs: number, delayMs: number) {
+    const at = this.elapsed();
+    let turn = this.current;
+    if (!turn) {
+      turn = this.startTurn(at);
+      turn.firstAudioMs = at;
+      if (turn.userEndMs !== null) {
+        turn.latencyMs = at - turn.userEndMs;
+        turn.audibleLatencyMs = turn.latencyMs + delayMs;
+      }
+    }
+    if (this.lastArrival >= 0) {
+      const gap = at - this.lastArrival;
+      // How much later than the previous chunk's audio ran out, as RFC 3550.
+      const deviation = Math.abs(gap - this.lastDurationMs);
+      turn.jitterMs += (deviation - turn.jitterMs) / 16;
+      turn.maxGapMs = Math.max(turn.maxGapMs, gap);
+    }
+    this.lastArrival = at;
+    this.lastDurationMs = durationMs;
+    turn.chunks++;
+    turn.audioMs += durationMs;
+    turn.endMs = at;
+  }
+
+  /**
+   * The model's turn ended or was cut off. A turn without audio, e.g. a
+   * text reply, is still recorded if it answered user input.
+   */
+  recordTurnEnd(interrupted = false) {
+    const at = this.elapsed();
+    if (!this.current && this.cutOff && !interrupted) {
+      // The turnComplete closing a turn that was already recorded.
+      this.cutOff = false;
+      return;
+    }
+    const turn = this.current ?? (this.pending ? this.startTurn(at) : null);
+    if (!turn) return;
+    this.cutOff = interrupted;
+    turn.interrupted = interrupted;
+    turn.endMs = at;
+    this.turns.push(turn);
+    if (this.turns.length > MAX_TURNS) this.turns.shift();
+    this.current = null;
+    this.lastArrival = -1;
+  }
+
+  recordPlayback(stats: PlaybackStats) {
+    this.playback = stats;
+  }
+
+  /** Follows the connection: counts drops and the time spent reconnecting. */
+  recordConnectionState(state: ConnectionState, previous: ConnectionState) {
+    const at = this.elapsed();
+    if (state === 'reconnecting') {
+      this.reconnectAttempts++;
+      if (previous !== 'reconnecting') {
+        this.reconnects++;
+        this.reconnectingSince = at;
+      }
+    } else if (this.reconnectingSince !== null) {
+      this.downtimeMs += at - this.reconnectingSince;
+      this.reconnectingSince = null;
+    }
+  }
+
+  snapshot(): SessionMetricsSnapshot {
+    const at = this.elapsed();
+    const downtime =
+      this.reconnectingSince === null ? 0 : at - this.reconnectingSince;
+    const turns = this.turns.map((t) => ({...t}));
+    return {
+      startedAt: this.startedAt,
+      durationMs: at,
+      bytesSent: this.bytesSent,
+      bytesReceived: this.bytesReceived,
+      messagesSent: this.messagesSent,
+      messagesReceived: this.messagesReceived,
+      reconnects: this.reconnects,
+      reconnectAttempts: this.reconnectAttempts,
+      downtimeMs: this.downtimeMs + downtime,
+      latency: summarizeLatency(turns),
+      playback: this.playback && {...this.playback},
+      turns,
+    };
+  }
+
+  toJSON(): string {
+    return JSON.stringify(
+      {exportedAt: new Date().toISOString(), ...this.snapshot()},
+      null,
+      2,
+    );
+  }
+
+  toCSV(): string {
+    return turnsToCsv(this.turns);
+  }
+
+  private elapsed() {
+    return this.now() - this.origin;
+  }
+
+  private startTurn(at: number): TurnMetrics {
+    const pending = this.pending;
+    this.pending = null;
+    this.cutOff = false;
+    this.current = {
+      index: (this.turns[this.turns.length - 1]?.index ?? 0) + 1,
+      trigger: pending?.trigger ?? null,
+      userEndMs: pending?.at ?? null,
+      firstAudioMs: null,
+      latencyMs: null,
+      audibleLatencyMs: null,
+      chunks: 0,
+      audioMs: 0,
+      jitterMs: 0,
+      maxGapMs: 0,
+      interrupted: false,
+      endMs: at,
+    };
+    return this.current;
+  }
+}
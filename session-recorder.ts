@@ -0,0 +1,228 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type {InterruptionRecord} from './interruption';
+import type {TranscriptTurn} from './transcript';
+import {encodeWav, int16ToFloat32, resample} from './wav';
+
+/** Sample rate of the microphone stream sent to the session. */
+export const INPUT_SAMPLE_RATE = 16000;
+/** Sample rate of the audio the model sends back. */
+export const OUTPUT_SAMPLE_RATE = 24000;
+
+/**
+ * Chunks that start this close to where the previous one ended are treated
+ * as contiguous, so arrival jitter does not leave clicks in the export.
+ */
+const SNAP_MS = 50;
+
+export type RecordingLayout = 'stereo' | 'two-track';
+
+export type RecordingEventType = 'turn-complete' | 'interrupted';
+
+export interface RecordingEvent {
+  type: RecordingEventType;
+  /** Milliseconds since the start of the recording. */
+  atMs: number;
+  /** Of an interruption, who interrupted and how much audio was played. */
+  interruption?: Pick<
+    InterruptionRecord,
+    'source' | 'receivedMs' | 'playedMs' | 'fadedMs' | 'discardedMs'
+  >;
+}
+
+interface Segment {
+  startMs: number;
+  samples: Int16Array;
+}
+
+/** One mono stream placed on the recording timeline. */
+class Track {
+  private segments: Segment[] = [];
+  private end = 0;
+
+  constructor(readonly sampleRate: number) {}
+
+  get endMs() {
+    return this.end;
+  }
+
+  get isEmpty() {
+    return this.segments.length === 0;
+  }
+
+  push(samples: Int16Array, startMs: number) {
+    if (this.segments.length && Math.abs(startMs - this.end) < SNAP_MS) {
+      startMs = this.end;
+    }
+    this.segments.push({startMs, samples});
+    this.end = Math.max(
+      this.end,
+      startMs + (samples.length / this.sampleRate) * 1000,
+    );
+  }
+
+  /** Drops everything scheduled at or after `atMs`. */
+  truncate(atMs: number) {
+    const kept: Segment[] = [];
+    for (const segment of this.segments) {
+      if (segment.startMs >= atMs) continue;
+      const maxSamples = Math.floor(
+        ((atMs - segment.startMs) / 1000) * this.sampleRate,
+      );
+      kept.push(
+        maxSamples < segment.samples.length
+          ? {startMs: segment.startMs, samples: segment.samples.slice(0, maxSamples)}
+          : segment,
+      );
+    }
+    this.segments = kept;
+    this.end = Math.min(this.end, atMs);
+  }
+
+  /** Renders the track at `sampleRate` over `durationMs`, silence in gaps. */
+  render(sampleRate: number, durationMs: number): Float32Array {
+    const out = new Float32Array(Math.ceil((durationMs / 1000) * sampleRate));
+    for (const segment of this.segments) {
+      const samples = resample(
+        int16ToFloat32(segment.samples),
+        this.sampleRate,
+        sampleRate,
+      );
+      const offset = Math.round((segment.startMs / 1000) * sampleRate);
+      const n = Math.min(samples.length, out.length - offset);
+      for (let i = 0; i < n; i++) {
+        out[offset + i] += samples[i];
+      }
+    }
+    return out;
+  }
+}
+
+export interface RecordingExport {
+  /** One stereo file (mic left, model right) or one file per track. */
+  audio: {name: string; blob: Blob}[];
+  /** JSON sidecar with turn boundaries and interruptions. */
+  sidecar: {name: string; blob: Blob};
+}
+
+/**
+ * Records the microphone and model streams of a session on one shared
+ * timeline so a conversation can be reviewed afterwards.
+ */
+export class SessionRecorder {
+  private input = new Track(INPUT_SAMPLE_RATE);
+  private output = new Track(OUTPUT_SAMPLE_RATE);
+  private events: RecordingEvent[] = [];
+  private origin = performance.now();
+  private startedAt = Date.now();
+
+  get isEmpty() {
+    return this.input.isEmpty && this.output.isEmpty;
+  }
+
+  /** Milliseconds since the start of the recording. */
+  now() {
+    return performance.now() - this.origin;
+  }
+
+  /** Records a chunk of microphone PCM that has just been captured. */
+  recordInput(pcm: Int16Array) {
+    const durationMs = (pcm.length / INPUT_SAMPLE_RATE) * 1000;
+    this.input.push(pcm, Math.max(0, this.now() - durationMs));
+  }
+
+  /** Records a chunk of model PCM that starts playing `delayMs` from now. */
+  recordOutput(pcm: Int16Array, delayMs = 0) {
+    this.output.push(pcm, this.now() + Math.max(0, delayMs));
+  }
+
+  /** Marks the end of a model turn. */
+  markTurnComplete() {
+    this.events.push({type: 'turn-complete', atMs: this.now()});
+  }
+
+  /**
+   * Marks an interruption and drops model audio that was never played. Audio
+   * in the `fadeMs` after it is kept, as it was heard fading out.
+   */
+  markInterrupted(fadeMs = 0, interruption?: InterruptionRecord) {
+    const atMs = this.now();
+    this.output.truncate(atMs + fadeMs);
+    this.events.push({
+      type: 'interrupted',
+      atMs,
+      interruption: interruption && {
+        source: interruption.source,
+        receivedMs: Math.round(interruption.receivedMs),
+        playedMs: Math.round(interruption.playedMs),
+        fadedMs: Math.round(interruption.fadedMs),
+        discardedMs: Math.round(interruption.discardedMs),
+      },
+    });
+  }
+
+  clear() {
+    this.input = new Track(INPUT_SAMPLE_RATE);
+    this.output = new Track(OUTPUT_SAMPLE_RATE);
+    this.events = [];
+    this.origin = performance.now();
+    this.startedAt = Date.now();
+  }
+
+  /**
+   * Renders the recording. Both tracks are resampled to the output rate so
+   * they line up sample for sample.
+   */
+  export(
+    layout: RecordingLayout,
+    turns: readonly TranscriptTurn[] = [],
+  ): RecordingExport {
+    const sampleRate = OUTPUT_SAMPLE_RATE;
+    const durationMs = Math.max(this.input.endMs, this.output.endMs);
+    const mic = this.input.render(sampleRate, durationMs);
+    const model = this.output.render(sampleRate, durationMs);
+    const base = `session-${new Date(this.startedAt)
+      .toISOString()
+      .replace(/[:.]/g, '-')}`;
+
+    const audio =
+      layout === 'stereo'
+        ? [{name: `${base}.wav`, blob: encodeWav([mic, model], sampleRate)}]
+        : [
+            {name: `${base}-mic.wav`, blob: encodeWav([mic], sampleRate)},
+            {name: `${base}-model.wav`, blob: encodeWav([model], sampleRate)},
+          ];
+
+    const sidecar = {
+      startedAt: new Date(this.startedAt).toISOString(),
+      durationMs: Math.round(durationMs),
+      sampleRate,
+      layout,
+      channels:
+        layout === 'stereo'
+          ? {left: 'user', right: 'model'}
+          : {[audio[0].name]: 'user', [audio[1].name]: 'model'},
+      turns: turns.map((turn) => ({
+        speaker: turn.speaker,
+        text: turn.text,
+        startMs: turn.startedAt - this.startedAt,
+        endMs: turn.endedAt === undefined ? null : turn.endedAt - this.startedAt,
+        interrupted: turn.interrupted,
+        heardText: turn.heardText,
+      })),
+      events: this.events.map((e) => ({...e, atMs: Math.round(e.atMs)})),
+    };
+
+    return {
+      audio,
+      sidecar: {
+        name: `${base}.json`,
+        blob: new Blob([JSON.stringify(sidecar, null, 2)], {
+          type: 'application/json',
+        }),
+      },
+    };
+  }
+}
@@ -0,0 +1,296 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import {Modality} from '@google/genai';
+import {LitElement, PropertyValues, css, html} from 'lit';
+import {customElement, property, state} from 'lit/decorators.js';
+import {
+  LANGUAGES,
+  MODELS,
+  SessionSettings,
+  VOICES,
+  validateSettings,
+} from './settings';
+
+/**
+ * Drawer for editing session settings. Edits are kept as a draft until
+ * applied; applying fires `settings-apply` with the new settings, closing
+ * without applying fires `settings-close`. Slotted content, such as the
+ * device pickers, goes in an "Audio devices" section below, content for
+ * the `processing` slot in an "Input processing" section after it, then
+ * content for the `display` slot in a "Display" section and content for the
+ * `diagnostics` slot last.
+ */
+@customElement('gdm-settings-panel')
+export class GdmSettingsPanel extends LitElement {
+  @property({attribute: false}) settings!: SessionSettings;
+  @property({type: Boolean, reflect: true}) open = false;
+
+  @state() private draft!: SessionSettings;
+
+  static styles = css`
+    :host {
+      position: absolute;
+      top: 0;
+      left: 0;
+      bottom: 0;
+      width: min(360px, 90vw);
+      z-index: 20;
+      box-sizing: border-box;
+      padding: 16px;
+      overflow-y: auto;
+      color: white;
+      font-size: 14px;
+      background: rgba(16, 12, 20, 0.95);
+      border-right: 1px solid rgba(255, 255, 255, 0.2);
+      transform: translateX(-100%);
+      transition: transform 0.2s ease;
+    }
+
+    :host([open]) {
+      transform: none;
+    }
+
+    h2 {
+      margin: 0 0 16px;
+      font-size: 16px;
+      font-weight: 500;
+    }
+
+    h2.section {
+      margin-top: 24px;
+    }
+
+    label,
+    fieldset {
+      display: flex;
+      flex-direction: column;
+      gap: 4px;
+      margin: 0 0 12px;
+    }
+
+    fieldset {
+      border: 1px solid rgba(255, 255, 255, 0.2);
+      border-radius: 8px;
+    }
+
+    fieldset label {
+      flex-direction: row;
+      align-items: center;
+      margin: 0;
+    }
+
+    select,
+    textarea {
+      font: inherit;
+      color: inherit;
+      background: rgba(255, 255, 255, 0.1);
+      border: 1px solid rgba(255, 255, 255, 0.2);
+      border-radius: 6px;
+      padding: 6px;
+    }
+
+    option {
+      color: black;
+    }
+
+    textarea {
+      min-height: 96px;
+      resize: vertical;
+    }
+
+    .errors {
+      margin: 0 0 12px;
+      padding: 8px 8px 8px 24px;
+      color: #fca5a5;
+      background: rgba(239, 68, 68, 0.15);
+      border-radius: 6px;
+    }
+
+    .actions {
+      display: flex;
+      justify-content: flex-end;
+      gap: 8px;
+    }
+
+    button {
+      font: inherit;
+      color: white;
+      background: rgba(255, 255, 255, 0.1);
+      border: 1px solid rgba(255, 255, 255, 0.2);
+      border-radius: 8px;
+      padding: 6px 14px;
+      cursor: pointer;
+
+      &:hover {
+        background: rgba(255, 255, 255, 0.2);
+      }
+    }
+
+    button:disabled {
+      opacity: 0.5;
+      cursor: not-allowed;
+    }
+  `;
+
+  protected willUpdate(changed: PropertyValues<this>) {
+    // Start every edit from the applied settings.
+    if ((changed.has('open') && this.open) || changed.has('settings')) {
+      this.draft = {...this.settings};
+    }
+  }
+
+  private setField<K extends keyof SessionSettings>(
+    key: K,
+    value: SessionSettings[K],
+  ) {
+    this.draft = {...this.draft, [key]: value};
+  }
+
+  private toggleModality(modality: Modality, on: boolean) {
+    const rest = this.draft.responseModalities.filter((m) => m !== modality);
+    this.setField('responseModalities', on ? [...rest, modality] : rest);
+  }
+
+  private apply() {
+    this.dispatchEvent(
+      new CustomEvent<SessionSettings>('settings-apply', {
+        detail: {...this.draft},
+        bubbles: true,
+        composed: true,
+      }),
+    );
+  }
+
+  private close() {
+    this.dispatchEvent(
+      new CustomEvent('settings-close', {bubbles: true, composed: true}),
+    );
+  }
+
+  protected render() {
+    if (!this.draft) return html``;
+    const errors = validateSettings(this.draft);
+    const modalities = this.draft.responseModalities;
+
+    return html`
+      <h2>Session settings</h2>
+
+      <label>
+        Model
+        <select
+          @change=${(e: Event) =>
+            this.setField('model', (e.target as HTMLSelectElement).value)}>
+          ${MODELS.map(
+            (m) =>
+              html`<option value=${m.id} ?selected=${m.id === this.draft.model}>
+                ${m.label}
+              </option>`,
+          )}
+        </select>
+      </label>
+
+      <label>
+        Voice
+        <select
+          @change=${(e: Event) =>
+            this.setField('voice', (e.target as HTMLSelectElement).value)}>
+          ${VOICES.map(
+            (v) =>
+              html`<option value=${v} ?selected=${v === this.draft.voice}>
+                ${v}
+              </option>`,
+          )}
+        </select>
+      </label>
+
+      <label>
+        Language
+        <select
+          @change=${(e: Event) =>
+            this.setField('languageCode', (e.target as HTMLSelectElement).value)}>
+          ${LANGUAGES.map(
+            (l) =>
+              html`<option
+                value=${l.code}
+                ?selected=${l.code === this.draft.languageCode}>
+                ${l.label}
+              </option>`,
+          )}
+        </select>
+      </label>
+
+      <label>
+        System instruction
+        <textarea
+          .value=${this.draft.systemInstruction}
+          placeholder="You are a helpful assistant..."
+          @input=${(e: Event) =>
+            this.setField(
+              'systemInstruction',
+              (e.target as HTMLTextAreaElement).value,
+            )}></textarea>
+      </label>
+
+      <fieldset>
+        <legend>Response modalities</legend>
+        <label>
+          <input
+            type="checkbox"
+            .checked=${modalities.includes(Modality.AUDIO)}
+            @change=${(e: Event) =>
+              this.toggleModality(
+                Modality.AUDIO,
+                (e.target as HTMLInputElement).checked,
+              )} />
+          Audio
+        </label>
+        <label>
+          <input
+            type="checkbox"
+            .checked=${modalities.includes(Modality.TEXT)}
+            @change=${(e: Event) =>
+              this.toggleModality(
+                Modality.TEXT,
+                (e.target as HTMLInputElement).checked,
+              )} />
+          Text
+        </label>
+      </fieldset>
+
+      ${errors.length
+        ? html`<ul class="errors" role="alert">
+            ${errors.map((e) => html`<li>${e}</li>`)}
+          </ul>`
+        : ''}
+
+      <div class="actions">
+        <button @click=${this.close}>Cancel</button>
+        <button @click=${this.apply} ?disabled=${errors.length > 0}>
+          Apply and reconnect
+        </button>
+      </div>
+
+      <h2 class="section">Audio devices</h2>
+      <slot></slot>
+
+      <h2 class="section">Input processing</h2>
+      <slot name="processing"></slot>
+
+      <h2 class="section">Display</h2>
+      <slot name="display"></slot>
+
+      <h2 class="section">Diagnostics</h2>
+      <slot name="diagnostics"></slot>
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'gdm-settings-panel': GdmSettingsPanel;
+  }
+}
@@ -0,0 +1,39 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {Modality} from '@google/genai';
+import {describe, expect, it} from 'vitest';
+import {DEFAULT_SETTINGS, sanitizeSettings, validateSettings} from './settings';
+
+describe('sanitizeSettings', () => {
+  it('keeps fields of the right type', () => {
+    const settings = {
+      ...DEFAULT_SETTINGS,
+      voice: 'Kore',
+      responseModalities: [Modality.TEXT],
+    };
+    expect(sanitizeSettings(settings)).toEqual(settings);
+  });
+
+  it('falls back to the default for each field of the wrong type', () => {
+    const settings = sanitizeSettings({
+      model: null,
+      voice: 'Puck',
+      languageCode: 7,
+      responseModalities: 'AUDIO',
+      extra: true,
+    });
+    expect(settings).toEqual({...DEFAULT_SETTINGS, voice: 'Puck'});
+    expect(validateSettings(settings)).toEqual([]);
+  });
+
+  it('rejects unknown modalities and anything that is not an object', () => {
+    expect(
+      sanitizeSettings({responseModalities: ['AUDIO', 'SMELL']})
+        .responseModalities,
+    ).toEqual(DEFAULT_SETTINGS.responseModalities);
+    expect(sanitizeSettings('{"model": "x"}')).toEqual(DEFAULT_SETTINGS);
+    expect(sanitizeSettings(null)).toEqual(DEFAULT_SETTINGS);
+  });
+});
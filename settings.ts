@@ -0,0 +1,188 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {LiveConnectConfig, Modality} from '@google/genai';
+import {createLogger} from './logger';
+
+const log = createLogger('settings');
+
+export interface SessionSettings {
+  model: string;
+  /** Prebuilt voice name. */
+  voice: string;
+  /** BCP-47 code, or '' to let the model pick. */
+  languageCode: string;
+  systemInstruction: string;
+  responseModalities: Modality[];
+}
+
+export interface ModelInfo {
+  id: string;
+  label: string;
+  /** Native audio models pick the language themselves and only speak. */
+  nativeAudio: boolean;
+}
+
+export const MODELS: ModelInfo[] = [
+  {
+    id: 'gemini-2.5-flash-preview-04-17',
+    label: 'Gemini 2.5 Flash (preview 04-17)',
+    nativeAudio: false,
+  },
+  {
+    id: 'gemini-2.0-flash-live-001',
+    label: 'Gemini 2.0 Flash Live',
+    nativeAudio: false,
+  },
+  {
+    id: 'gemini-2.5-flash-preview-native-audio-dialog',
+    label: 'Gemini 2.5 Flash native audio dialog',
+    nativeAudio: true,
+  },
+  {
+    id: 'gemini-2.5-flash-exp-native-audio-thinking-dialog',
+    label: 'Gemini 2.5 Flash native audio thinking dialog',
+    nativeAudio: true,
+  },
+];
+
+export const VOICES = [
+  'Aoede',
+  'Charon',
+  'Fenrir',
+  'Kore',
+  'Leda',
+  'Orus',
+  'Puck',
+  'Zephyr',
+];
+
+export const LANGUAGES: {code: string; label: string}[] = [
+  {code: '', label: 'Automatic'},
+  {code: 'en-US', label: 'English (US)'},
+  {code: 'en-GB', label: 'English (UK)'},
+  {code: 'de-DE', label: 'German'},
+  {code: 'es-US', label: 'Spanish (US)'},
+  {code: 'fr-FR', label: 'French'},
+  {code: 'hi-IN', label: 'Hindi'},
+  {code: 'it-IT', label: 'Italian'},
+  {code: 'ja-JP', label: 'Japanese'},
+  {code: 'ko-KR', label: 'Korean'},
+  {code: 'pt-BR', label: 'Portuguese (Brazil)'},
+];
+
+export const DEFAULT_SETTINGS: SessionSettings = {
+  model: 'gemini-2.5-flash-preview-04-17',
+  voice: 'Orus',
+  languageCode: '',
+  systemInstruction: '',
+  responseModalities: [Modality.AUDIO],
+};
+
+const STORAGE_KEY = 'gdm-live-audio:settings';
+
+type TextSetting = Exclude<keyof SessionSettings, 'responseModalities'>;
+
+const MODALITIES: unknown[] = Object.values(Modality);
+
+/**
+ * Settings read from storage or a saved conversation. Fields that are
+ * missing or of the wrong type fall back to their defaults; whether the
+ * rest make sense is up to {@link validateSettings}.
+ */
+export function sanitizeSettings(value: unknown): SessionSettings {
+  const saved = (
+    typeof value === 'object' && value !== null ? value : {}
+  ) as Record<string, unknown>;
+  const text = (key: TextSetting) => {
+    const field = saved[key];
+    return typeof field === 'string' ? field : DEFAULT_SETTINGS[key];
+  };
+  const modalities = saved.responseModalities;
+  return {
+    model: text('model'),
+    voice: text('voice'),
+    languageCode: text('languageCode'),
+    systemInstruction: text('systemInstruction'),
+    responseModalities:
+      Array.isArray(modalities) &&
+      modalities.every((m) => MODALITIES.includes(m))
+        ? (modalities as Modality[])
+        : [...DEFAULT_SETTINGS.responseModalities],
+  };
+}
+
+/** Reads saved settings, falling back to the defaults field by field. */
+export function loadSettings(): SessionSettings {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (raw) {
+      return sanitizeSettings(JSON.parse(raw));
+    }
+  } catch (e) {
+    log.warn('Could not read saved settings:', e);
+  }
+  return {...DEFAULT_SETTINGS};
+}
+
+export function saveSettings(settings: SessionSettings) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (e) {
+    log.warn('Could not save settings:', e);
+  }
+}
+
+/** Returns one message per problem; an empty list means the settings are usable. */
+export function validateSettings(settings: SessionSettings): string[] {
+  const errors: string[] = [];
+  const model = MODELS.find((m) => m.id === settings.model);
+  const modalities = settings.responseModalities;
+
+  if (!settings.model.trim()) {
+    errors.push('Choose a model.');
+  }
+  if (modalities.length === 0) {
+    errors.push('Choose a response modality.');
+  } else if (modalities.length > 1) {
+    errors.push(
+      'The Live API returns a single modality per session. Choose either audio or text.',
+    );
+  }
+  if (modalities.includes(Modality.IMAGE)) {
+    errors.push('Image responses are not supported in live sessions.');
+  }
+  if (model?.nativeAudio && modalities.includes(Modality.TEXT)) {
+    errors.push(`${model.label} only responds with audio.`);
+  }
+  if (model?.nativeAudio && settings.languageCode) {
+    errors.push(
+      `${model.label} chooses the language itself. Set the language to Automatic.`,
+    );
+  }
+  if (modalities.includes(Modality.AUDIO) && !VOICES.includes(settings.voice)) {
+    errors.push(`Unknown voice "${settings.voice}".`);
+  }
+  return errors;
+}
+
+/** Builds the `live.connect` config for the given settings. */
+export function toLiveConnectConfig(settings: SessionSettings): LiveConnectConfig {
+  const config: LiveConnectConfig = {
+    responseModalities: settings.responseModalities,
+    // The user's speech is transcribed whatever the model answers with.
+    inputAudioTranscription: {},
+  };
+  if (settings.responseModalities.includes(Modality.AUDIO)) {
+    config.outputAudioTranscription = {};
+    config.speechConfig = {
+      voiceConfig: {prebuiltVoiceConfig: {voiceName: settings.voice}},
+      ...(settings.languageCode ? {languageCode: settings.languageCode} : {}),
+    };
+  }
+  if (settings.systemInstruction.trim()) {
+    config.systemInstruction = settings.systemInstruction;
+  }
+  return config;
+}
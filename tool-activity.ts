@@ -0,0 +1,97 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import {LitElement, css, html} from 'lit';
+import {customElement, property} from 'lit/decorators.js';
+import {repeat} from 'lit/directives/repeat.js';
+import type {ToolInvocation, ToolInvocationStatus} from './tools';
+
+const STATUS_LABELS: Record<ToolInvocationStatus, string> = {
+  running: 'Running',
+  succeeded: 'Done',
+  failed: 'Failed',
+  'timed-out': 'Timed out',
+  cancelled: 'Cancelled',
+};
+
+/**
+ * Compact list of the tool calls the assistant made, newest last.
+ */
+@customElement('gdm-tool-activity')
+export class GdmToolActivity extends LitElement {
+  @property({attribute: false}) invocations: readonly ToolInvocation[] = [];
+
+  static styles = css`
+    :host {
+      display: block;
+      color: white;
+      font-size: 12px;
+    }
+
+    ul {
+      margin: 0;
+      padding: 0;
+      list-style: none;
+      display: flex;
+      flex-direction: column;
+      gap: 4px;
+    }
+
+    li {
+      padding: 4px 10px;
+      background-color: rgba(0, 0, 0, 0.5);
+      border-radius: 12px;
+      border-left: 3px solid #9ca3af;
+    }
+
+    li.running {
+      border-left-color: #f59e0b;
+    }
+
+    li.succeeded {
+      border-left-color: #10b981;
+    }
+
+    li.failed,
+    li.timed-out {
+      border-left-color: #ef4444;
+    }
+
+    code {
+      font-family: monospace;
+    }
+
+    .status {
+      opacity: 0.7;
+    }
+  `;
+
+  protected render() {
+    if (this.invocations.length === 0) return html``;
+    return html`
+      <ul aria-label="Assistant tool calls" aria-live="polite">
+        ${repeat(
+          this.invocations,
+          (invocation) => invocation.id,
+          (invocation) => html`
+            <li
+              class=${invocation.status}
+              title=${invocation.error ?? JSON.stringify(invocation.args)}>
+              <code>${invocation.name}</code>
+              <span class="status">${STATUS_LABELS[invocation.status]}</span>
+            </li>
+          `,
+        )}
+      </ul>
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'gdm-tool-activity': GdmToolActivity;
+  }
+}
@@ -0,0 +1,191 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type {
+  FunctionCall,
+  FunctionResponse,
+  Schema,
+  Tool,
+} from '@google/genai';
+
+/** Default time a handler gets before the call is answered with an error. */
+const DEFAULT_TIMEOUT_MS = 10000;
+
+export interface ToolContext {
+  /** Aborted when the call times out or the server cancels it. */
+  signal: AbortSignal;
+}
+
+export interface ToolDefinition<
+  Args extends Record<string, unknown> = Record<string, unknown>,
+> {
+  name: string;
+  description: string;
+  /** Schema of the arguments object, in the Gemini function schema format. */
+  parameters?: Schema;
+  handler: (args: Args, context: ToolContext) => unknown | Promise<unknown>;
+  timeoutMs?: number;
+}
+
+export type ToolInvocationStatus =
+  | 'running'
+  | 'succeeded'
+  | 'failed'
+  | 'timed-out'
+  | 'cancelled';
+
+export interface ToolInvocation {
+  id: string;
+  name: string;
+  args: Record<string, unknown>;
+  status: ToolInvocationStatus;
+  startedAt: number;
+  endedAt?: number;
+  result?: unknown;
+  error?: string;
+}
+
+class ToolTimeoutError extends Error {
+  constructor(name: string, timeoutMs: number) {
+    super(`Tool "${name}" did not finish within ${timeoutMs} ms`);
+    this.name = 'ToolTimeoutError';
+  }
+}
+
+class ToolCancelledError extends Error {
+  constructor(name: string) {
+    super(`Tool "${name}" was cancelled`);
+    this.name = 'ToolCancelledError';
+  }
+}
+
+/**
+ * Functions the model may call during a live session.
+ *
+ * Declarations are sent when a session connects, so tools registered later
+ * only become visible to the model after the next (re)connect.
+ */
+export class ToolRegistry {
+  /** Called whenever an invocation starts or finishes. */
+  onInvocation: (invocation: ToolInvocation) => void = () => {};
+
+  private tools = new Map<string, ToolDefinition>();
+  /** Cancel functions of the calls still running, by call id. */
+  private running = new Map<string, () => void>();
+  private nextLocalId = 1;
+
+  register<Args extends Record<string, unknown>>(tool: ToolDefinition<Args>) {
+    if (this.tools.has(tool.name)) {
+      throw new Error(`Tool "${tool.name}" is already registered`);
+    }
+    this.tools.set(tool.name, tool as unknown as ToolDefinition);
+  }
+
+  unregister(name: string) {
+    this.tools.delete(name);
+  }
+
+  get size() {
+    return this.tools.size;
+  }
+
+  /** The `tools` entry for `live.connect`, or undefined if none are registered. */
+  declarations(): Tool[] | undefined {
+    if (this.tools.size === 0) return undefined;
+    return [
+      {
+        functionDeclarations: [...this.tools.values()].map((tool) => ({
+          name: tool.name,
+          description: tool.description,
+          parameters: tool.parameters,
+        })),
+      },
+    ];
+  }
+
+  /**
+   * Runs the calls of one `toolCall` message concurrently. Resolves with the
+   * responses to send back; cancelled calls are left out.
+   */
+  async dispatch(calls: FunctionCall[]): Promise<FunctionResponse[]> {
+    const responses = await Promise.all(calls.map((call) => this.run(call)));
+    return responses.filter((r): r is FunctionResponse => r !== null);
+  }
+
+  /** Aborts running calls the server no longer wants an answer for. */
+  cancel(ids: string[]) {
+    for (const id of ids) {
+      this.running.get(id)?.();
+    }
+  }
+
+  /** Aborts every running call, e.g. when the session goes away. */
+  cancelAll() {
+    this.cancel([...this.running.keys()]);
+  }
+
+  private async run(call: FunctionCall): Promise<FunctionResponse | null> {
+    const id = call.id ?? `local-${this.nextLocalId++}`;
+    const name = call.name ?? '';
+    const invocation: ToolInvocation = {
+      id,
+      name,
+      args: call.args ?? {},
+      status: 'running',
+      startedAt: Date.now(),
+    };
+    this.onInvocation({...invocation});
+
+    const finish = (
+      status: ToolInvocationStatus,
+      outcome: Pick<ToolInvocation, 'result' | 'error'>,
+    ) => {
+      Object.assign(invocation, outcome, {status, endedAt: Date.now()});
+      this.onInvocation({...invocation});
+    };
+
+    const tool = this.tools.get(name);
+    if (!tool) {
+      const error = `Unknown tool "${name}"`;
+      finish('failed', {error});
+      return {id, name, response: {error}};
+    }
+
+    const controller = new AbortController();
+    const timeoutMs = tool.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let cancel = () => {};
+    const stopped = new Promise<never>((_, reject) => {
+      timer = setTimeout(
+        () => reject(new ToolTimeoutError(name, timeoutMs)),
+        timeoutMs,
+      );
+      cancel = () => reject(new ToolCancelledError(name));
+    });
+    this.running.set(id, cancel);
+
+    try {
+      const result = await Promise.race([
+        Promise.resolve(
+          tool.handler(invocation.args, {signal: controller.signal}),
+        ),
+        stopped,
+      ]);
+      finish('succeeded', {result});
+      return {id, name, response: {output: result}};
+    } catch (e) {
+      controller.abort();
+      const error = e instanceof Error ? e.message : String(e);
+      if (e instanceof ToolCancelledError) {
+        finish('cancelled', {error});
+        return null;
+      }
+      finish(e instanceof ToolTimeoutError ? 'timed-out' : 'failed', {error});
+      return {id, name, response: {error}};
+    } finally {
+      clearTimeout(timer);
+      this.running.delete(id);
+    }
+  }
+}
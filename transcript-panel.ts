@@ -0,0 +1,153 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import {LitElement, css, html} from 'lit';
+import {customElement, property} from 'lit/decorators.js';
+import {repeat} from 'lit/directives/repeat.js';
+import type {TranscriptTurn} from './transcript';
+
+const SPEAKER_LABELS = {
+  user: 'You',
+  model: 'Gemini',
+};
+
+function formatTime(epochMs: number) {
+  return new Date(epochMs).toLocaleTimeString([], {
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  });
+}
+
+/**
+ * Scrollable side panel listing the turns of a live transcript. Slotted
+ * content, such as the chat input, goes below the list.
+ */
+@customElement('gdm-transcript-panel')
+export class GdmTranscriptPanel extends LitElement {
+  @property({attribute: false}) turns: readonly TranscriptTurn[] = [];
+
+  static styles = css`
+    :host {
+      display: flex;
+      flex-direction: column;
+      box-sizing: border-box;
+      color: white;
+      font-size: 14px;
+      background-color: rgba(0, 0, 0, 0.5);
+      border-left: 1px solid rgba(255, 255, 255, 0.2);
+    }
+
+    h2 {
+      margin: 0;
+      padding: 12px 16px;
+      font-size: 14px;
+      font-weight: 500;
+      border-bottom: 1px solid rgba(255, 255, 255, 0.2);
+    }
+
+    ol {
+      flex: 1;
+      overflow-y: auto;
+      margin: 0;
+      padding: 8px 16px;
+      list-style: none;
+    }
+
+    li {
+      margin: 8px 0;
+    }
+
+    .meta {
+      display: flex;
+      gap: 8px;
+      align-items: baseline;
+      font-size: 12px;
+      opacity: 0.7;
+    }
+
+    .speaker {
+      font-weight: 600;
+    }
+
+    li.user .speaker {
+      color: #fb7185;
+    }
+
+    li.model .speaker {
+      color: #60a5fa;
+    }
+
+    .interrupted {
+      color: #f59e0b;
+    }
+
+    .text {
+      white-space: pre-wrap;
+      overflow-wrap: anywhere;
+    }
+
+    .unheard {
+      opacity: 0.5;
+      text-decoration: line-through;
+    }
+
+    .empty {
+      opacity: 0.5;
+    }
+  `;
+
+  protected updated() {
+    // Keep the newest turn in view while the conversation runs.
+    const list = this.shadowRoot!.querySelector('ol');
+    if (list) list.scrollTop = list.scrollHeight;
+  }
+
+  /** Strikes out the part of an interrupted reply the user never heard. */
+  private renderText(turn: TranscriptTurn) {
+    if (turn.heardText === undefined) return turn.text;
+    const unheard = turn.text.slice(turn.heardText.length);
+    return html`${turn.heardText}${unheard
+      ? html`<span class="unheard" title="Not played">${unheard}</span>`
+      : ''}`;
+  }
+
+  protected render() {
+    return html`
+      <h2>Transcript</h2>
+      <ol aria-live="polite">
+        ${this.turns.length === 0
+          ? html`<li class="empty">Nothing said yet.</li>`
+          : repeat(
+              this.turns,
+              (turn) => turn.id,
+              (turn) => html`
+                <li class=${turn.speaker}>
+                  <div class="meta">
+                    <span class="speaker">${SPEAKER_LABELS[turn.speaker]}</span>
+                    <time datetime=${new Date(turn.startedAt).toISOString()}
+                      >${formatTime(turn.startedAt)}</time
+                    >
+                    ${turn.typed ? html`<span>Typed</span>` : ''}
+                    ${turn.interrupted
+                      ? html`<span class="interrupted">Interrupted</span>`
+                      : ''}
+                  </div>
+                  <div class="text">${this.renderText(turn)}</div>
+                </li>
+              `,
+            )}
+      </ol>
+      <slot></slot>
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'gdm-transcript-panel': GdmTranscriptPanel;
+  }
+}
@@ -0,0 +1,60 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type {LiveServerMessage} from '@google/genai';
+import {beforeEach, describe, expect, it} from 'vitest';
+import {Transcript} from './transcript';
+
+function message(
+  serverContent: NonNullable<LiveServerMessage['serverContent']>,
+): LiveServerMessage {
+  return {serverContent} as LiveServerMessage;
+}
+
+const said = (text: string) => message({outputTranscription: {text}});
+const heard = (text: string) => message({inputTranscription: {text}});
+const turnComplete = message({turnComplete: true});
+
+describe('Transcript', () => {
+  let transcript: Transcript;
+
+  beforeEach(() => {
+    transcript = new Transcript();
+  });
+
+  it('drops the rest of a reply the user cut off until the server ends it', () => {
+    transcript.applyMessage(heard('Tell me a story.'));
+    transcript.applyMessage(said('Once upon'));
+    const turn = transcript.interruptModel(0, true);
+    expect(turn?.interrupted).toBe(true);
+
+    transcript.applyMessage(said(' a time'));
+    transcript.applyMessage(turnComplete);
+    transcript.applyMessage(heard('Thanks.'));
+    transcript.applyMessage(said('You are welcome.'));
+    expect(transcript.turns.map((t) => t.text)).toEqual([
+      'Tell me a story.',
+      'Once upon',
+      'Thanks.',
+      'You are welcome.',
+    ]);
+  });
+
+  it('keeps the next reply after a barge-in on an ended turn', () => {
+    transcript.applyMessage(said('All done.'));
+    transcript.applyMessage(turnComplete);
+    // The tail of the reply is still playing when the user cuts it off.
+    expect(transcript.interruptModel(0, true)).toBeNull();
+
+    transcript.applyMessage(heard('And then?'));
+    transcript.applyMessage(said('Then nothing.'));
+    transcript.applyMessage(turnComplete);
+    expect(transcript.turns.map((t) => t.text)).toEqual([
+      'All done.',
+      'And then?',
+      'Then nothing.',
+    ]);
+    expect(transcript.turns.some((t) => t.interrupted)).toBe(false);
+  });
+});
@@ -0,0 +1,180 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type {Content, LiveServerMessage} from '@google/genai';
+
+export type Speaker = 'user' | 'model';
+
+export interface TranscriptTurn {
+  id: number;
+  speaker: Speaker;
+  text: string;
+  /** Epoch milliseconds of the first fragment. */
+  startedAt: number;
+  /** Epoch milliseconds the turn was closed, if it has been. */
+  endedAt?: number;
+  /** Set when the model was cut off before finishing the turn. */
+  interrupted: boolean;
+  /** Of an interrupted model turn, the start of `text` the user heard. */
+  heardText?: string;
+  /** Set for user turns typed into the chat box rather than spoken. */
+  typed?: boolean;
+}
+
+/** Text parts of a model turn, as sent when the TEXT modality is on. */
+function textOf(content: Content | undefined): string {
+  return (content?.parts ?? [])
+    .filter((part) => part.text && !part.thought)
+    .map((part) => part.text)
+    .join('');
+}
+
+/**
+ * Turn-by-turn transcript built from the input and output audio
+ * transcriptions of a live session, the model's text replies and the
+ * messages the user typed.
+ *
+ * Transcription fragments arrive independently of the model turn, so a user
+ * turn stays open until the model starts answering, and a model turn stays
+ * open until the server reports it complete or interrupted.
+ */
+export class Transcript {
+  /** Called after every change to the turns. */
+  onChange: (turns: readonly TranscriptTurn[]) => void = () => {};
+
+  private list: TranscriptTurn[] = [];
+  private nextId = 1;
+  private openUser: TranscriptTurn | null = null;
+  private openModel: TranscriptTurn | null = null;
+  /** Set from the model's first output until the server ends its turn. */
+  private modelResponding = false;
+  /** Set after a client-side barge-in until the server ends the turn. */
+  private discardingOutput = false;
+
+  get turns(): readonly TranscriptTurn[] {
+    return this.list;
+  }
+
+  /** Folds one server message into the transcript. */
+  applyMessage(message: LiveServerMessage, now = Date.now()) {
+    const content = message.serverContent;
+    if (!content) return;
+    let changed = false;
+
+    const input = content.inputTranscription?.text;
+    if (input) {
+      this.openUser ??= this.startTurn('user', now);
+      this.openUser.text += input;
+      changed = true;
+    }
+
+    const output = this.discardingOutput
+      ? ''
+      : (content.outputTranscription?.text ?? '') + textOf(content.modelTurn);
+    if (content.modelTurn || content.outputTranscription) {
+      this.modelResponding = true;
+    }
+    if (output || content.modelTurn) {
+      // The model answering means the user has finished speaking.
+      changed = this.endTurn('user', now) || changed;
+    }
+    if (output) {
+      this.openModel ??= this.startTurn('model', now);
+      this.openModel.text += output;
+      changed = true;
+    }
+
+    if (content.interrupted && this.openModel) {
+      this.openModel.interrupted = true;
+      changed = this.endTurn('model', now) || changed;
+    }
+    if (content.turnComplete) {
+      changed = this.endTurn('model', now) || changed;
+    }
+    if (content.interrupted || content.turnComplete) {
+      this.modelResponding = false;
+      this.discardingOutput = false;
+    }
+
+    if (changed) this.onChange(this.list);
+  }
+
+  /** Adds a message the user typed as a turn of its own. */
+  addUserText(text: string, now = Date.now()) {
+    this.endTurn('user', now);
+    const turn = this.startTurn('user', now);
+    turn.text = text;
+    turn.typed = true;
+    turn.endedAt = now;
+    this.onChange(this.list);
+  }
+
+  /**
+   * Cuts off the open model turn and returns it. With `discardRest`, output
+   * transcription is dropped until the server ends the turn, because after a
+   * client-side barge-in the server keeps generating. Once the server has
+   * ended the turn there is nothing left to drop, and the next reply is kept.
+   */
+  interruptModel(now = Date.now(), discardRest = false): TranscriptTurn | null {
+    const turn = this.openModel;
+    this.discardingOutput = discardRest && this.modelResponding;
+    if (!turn) return null;
+    turn.interrupted = true;
+    this.endTurn('model', now);
+    this.onChange(this.list);
+    return turn;
+  }
+
+  /** Records how much of an interrupted model turn the user heard. */
+  setHeardText(id: number, heardText: string) {
+    const turn = this.list.find((t) => t.id === id);
+    if (!turn) return;
+    turn.heardText = heardText;
+    this.onChange(this.list);
+  }
+
+  /** Replaces the transcript with saved turns, e.g. of a resumed conversation. */
+  load(turns: readonly TranscriptTurn[]) {
+    this.list = turns.map((turn) => ({...turn}));
+    this.nextId = Math.max(0, ...this.list.map((t) => t.id)) + 1;
+    this.openUser = null;
+    this.openModel = null;
+    this.modelResponding = false;
+    this.discardingOutput = false;
+    this.onChange(this.list);
+  }
+
+  clear() {
+    this.list = [];
+    this.openUser = null;
+    this.openModel = null;
+    this.modelResponding = false;
+    this.discardingOutput = false;
+    this.onChange(this.list);
+  }
+
+  private startTurn(speaker: Speaker, now: number): TranscriptTurn {
+    const turn: TranscriptTurn = {
+      id: this.nextId++,
+      speaker,
+      text: '',
+      startedAt: now,
+      interrupted: false,
+    };
+    this.list.push(turn);
+    return turn;
+  }
+
+  private endTurn(speaker: Speaker, now: number): boolean {
+    const turn = speaker === 'user' ? this.openUser : this.openModel;
+    if (!turn) return false;
+    turn.endedAt = now;
+    if (speaker === 'user') {
+      this.openUser = null;
+    } else {
+      this.openModel = null;
+    }
+    return true;
+  }
+}
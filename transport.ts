@@ -0,0 +1,84 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type {LiveConnectConfig, LiveServerMessage, Session} from '@google/genai';
+
+/** The parts of a live session the app relies on. */
+export type LiveSession = Pick<
+  Session,
+  'sendRealtimeInput' | 'sendClientContent' | 'sendToolResponse' | 'close'
+>;
+
+export interface SessionCallbacks {
+  onopen: () => void;
+  onmessage: (message: LiveServerMessage) => void;
+  onerror: (e: ErrorEvent) => void;
+  onclose: (e: CloseEvent) => void;
+}
+
+export interface LiveConnectRequest {
+  model: string;
+  config: LiveConnectConfig;
+  callbacks: SessionCallbacks;
+}
+
+/**
+ * A backend that can host live sessions. `connect` resolves once the session
+ * accepts input; messages and lifecycle events arrive through the callbacks.
+ */
+export interface LiveTransport {
+  readonly name: string;
+  connect(request: LiveConnectRequest): Promise<LiveSession>;
+}
+
+/**
+ * - `gemini`: straight to the Gemini API with a key in the page. Local
+ *   development only.
+ * - `proxy`: through scripts/live-proxy-server.mjs, which holds the key.
+ * - `mock`: the local mock server, no key or network needed.
+ */
+export type TransportKind = 'gemini' | 'proxy' | 'mock';
+
+const TRANSPORT_KINDS: TransportKind[] = ['gemini', 'proxy', 'mock'];
+
+export const DEFAULT_MOCK_URL = 'ws://localhost:8765';
+
+function readEnv(name: 'API_KEY' | 'LIVE_TRANSPORT' | 'MOCK_LIVE_URL' | 'LIVE_PROXY_URL') {
+  return typeof process !== 'undefined' && process.env
+    ? process.env[name]
+    : undefined;
+}
+
+/**
+ * Transport to use when the page does not say: `?transport=` in the URL,
+ * then the LIVE_TRANSPORT environment variable, then `gemini` if a key was
+ * embedded for local development, else `proxy`.
+ */
+export function defaultTransportKind(): TransportKind {
+  const requested =
+    new URLSearchParams(location.search).get('transport') ??
+    readEnv('LIVE_TRANSPORT');
+  if (TRANSPORT_KINDS.includes(requested as TransportKind)) {
+    return requested as TransportKind;
+  }
+  return readEnv('API_KEY') ? 'gemini' : 'proxy';
+}
+
+/** API key embedded into the page by the dev server, if opted in. */
+export function embeddedApiKey(): string | undefined {
+  return readEnv('API_KEY');
+}
+
+/** Relay endpoint from LIVE_PROXY_URL, or `/live` on this origin. */
+export function defaultProxyUrl(): string {
+  const fromEnv = readEnv('LIVE_PROXY_URL');
+  if (fromEnv) return fromEnv;
+  const protocol = location.protocol === 'https:' ? 'wss:' : 'ws:';
+  return `${protocol}//${location.host}/live`;
+}
+
+/** Mock server address from MOCK_LIVE_URL, or the script's default port. */
+export function defaultMockUrl(): string {
+  return readEnv('MOCK_LIVE_URL') || DEFAULT_MOCK_URL;
+}
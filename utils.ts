@@ -23,51 +23,24 @@ function decode(base64) {
   return bytes;
 }
 
-function createBlob(data: Float32Array): Blob {
+function floatTo16BitPCM(data: Float32Array): Int16Array {
   const l = data.length;
   const int16 = new Int16Array(l);
   for (let i = 0; i < l; i++) {
     // convert float32 -1 to 1 to int16 -32768 to 32767
-    int16[i] = data[i] * 32768;
+    const s = Math.max(-1, Math.min(1, data[i]));
+    int16[i] = s < 0 ? s * 32768 : s * 32767;
   }
+  return int16;
+}
 
+function createPcmBlob(int16: Int16Array): Blob {
   return {
-    data: encode(new Uint8Array(int16.buffer)),
+    data: encode(
+      new Uint8Array(int16.buffer, int16.byteOffset, int16.byteLength),
+    ),
     mimeType: 'audio/pcm;rate=16000',
   };
 }
 
-async function decodeAudioData(
-  data: Uint8Array,
-  ctx: AudioContext,
-  sampleRate: number,
-  numChannels: number,
-): Promise<AudioBuffer> {
-  const buffer = ctx.createBuffer(
-    numChannels,
-    data.length / 2 / numChannels,
-    sampleRate,
-  );
-
-  const dataInt16 = new Int16Array(data.buffer);
-  const l = dataInt16.length;
-  const dataFloat32 = new Float32Array(l);
-  for (let i = 0; i < l; i++) {
-    dataFloat32[i] = dataInt16[i] / 32768.0;
-  }
-  // Extract interleaved channels
-  if (numChannels === 0) {
-    buffer.copyToChannel(dataFloat32, 0);
-  } else {
-    for (let i = 0; i < numChannels; i++) {
-      const channel = dataFloat32.filter(
-        (_, index) => index % numChannels === i,
-      );
-      buffer.copyToChannel(channel, i);
-    }
-  }
-
-  return buffer;
-}
-
-export {createBlob, decode, decodeAudioData, encode};
+export {createPcmBlob, decode, encode, floatTo16BitPCM};
@@ -0,0 +1,66 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {describe, expect, it} from 'vitest';
+import {
+  DEFAULT_VAD_OPTIONS,
+  VadState,
+  VoiceActivityDetector,
+  levelDb,
+} from './vad';
+
+const SAMPLE_RATE = DEFAULT_VAD_OPTIONS.sampleRate;
+/** 32 ms, the capture chunk size. */
+const CHUNK = 512;
+
+/** A chunk of a `hz` sine at `db` dBFS RMS, continuing from chunk `index`. */
+function tone(hz: number, db: number, index = 0) {
+  const amplitude = Math.SQRT2 * 10 ** (db / 20) * 32767;
+  const out = new Int16Array(CHUNK);
+  for (let i = 0; i < CHUNK; i++) {
+    const t = (index * CHUNK + i) / SAMPLE_RATE;
+    out[i] = Math.round(amplitude * Math.sin(2 * Math.PI * hz * t));
+  }
+  return out;
+}
+
+describe('levelDb', () => {
+  it('measures the RMS level and reports digital silence as -100', () => {
+    expect(levelDb(tone(200, -30))).toBeCloseTo(-30, 0);
+    expect(levelDb(new Int16Array(CHUNK))).toBe(-100);
+  });
+});
+
+describe('VoiceActivityDetector', () => {
+  it('opens on speech after silence and sends the pre-roll with it', () => {
+    const vad = new VoiceActivityDetector();
+    for (let i = 0; i < 20; i++) {
+      expect(vad.process(tone(200, -70, i))).toHaveLength(0);
+    }
+    const sent = vad.process(tone(200, -25, 20));
+    expect(vad.state).toBe('speech');
+    // 300 ms of pre-roll is ten chunks, plus the chunk that opened the gate.
+    expect(sent).toHaveLength(11);
+  });
+
+  it('settles back to silence in a room louder than its starting floor', () => {
+    const vad = new VoiceActivityDetector();
+    const states: VadState[] = [];
+    vad.onStateChange = (state) => states.push(state);
+    // A steady hum well above minLevelDb opens the gate at first.
+    let i = 0;
+    vad.process(tone(150, -35, i++));
+    expect(vad.state).toBe('speech');
+
+    // Ten seconds of it.
+    for (; i < 312; i++) vad.process(tone(150, -35, i));
+    expect(states).toEqual(['speech', 'hangover', 'silence']);
+    expect(vad.process(tone(150, -35, i++))).toHaveLength(0);
+    expect(vad.noiseFloorDb).toBeGreaterThan(-45);
+
+    // Speech over the hum still opens it.
+    vad.process(tone(300, -15, i++));
+    expect(vad.state).toBe('speech');
+  });
+});
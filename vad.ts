@@ -0,0 +1,219 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * silence -> speech -> hangover -> silence
+ * Hangover is the tail after the last speech-like chunk, still sent so that
+ * trailing syllables and the pause that ends a turn reach the server.
+ */
+export type VadState = 'silence' | 'speech' | 'hangover';
+
+export interface VadOptions {
+  sampleRate: number;
+  /** How far above the tracked noise floor a chunk must be to be speech. */
+  thresholdDb: number;
+  /** Chunks quieter than this are never speech, however quiet the room. */
+  minLevelDb: number;
+  /** Time audio keeps flowing after the last speech-like chunk. */
+  hangoverMs: number;
+  /** Audio from just before speech started, sent along with it. */
+  preRollMs: number;
+  /**
+   * Zero-crossing rate bounds, in crossings per sample. Speech sits between
+   * mains hum (near 0) and broadband hiss (near 0.5).
+   */
+  minZeroCrossingRate: number;
+  maxZeroCrossingRate: number;
+  /** How fast the noise floor follows the level while not speaking, 0 to 1. */
+  noiseAdaptation: number;
+  /**
+   * How fast it rises while the gate is open. Slow enough that a sentence
+   * is not learned as noise, so that a room louder than the starting floor
+   * still closes the gate after a few seconds.
+   */
+  speechNoiseAdaptation: number;
+}
+
+export const DEFAULT_VAD_OPTIONS: VadOptions = {
+  sampleRate: 16000,
+  thresholdDb: 12,
+  minLevelDb: -55,
+  hangoverMs: 800,
+  preRollMs: 300,
+  minZeroCrossingRate: 0.01,
+  maxZeroCrossingRate: 0.45,
+  noiseAdaptation: 0.05,
+  speechNoiseAdaptation: 0.01,
+};
+
+/** Level of a PCM chunk in dBFS. Digital silence comes out as -100. */
+export function levelDb(pcm: Int16Array): number {
+  let sum = 0;
+  for (let i = 0; i < pcm.length; i++) {
+    const s = pcm[i] / 32768;
+    sum += s * s;
+  }
+  const rms = pcm.length ? Math.sqrt(sum / pcm.length) : 0;
+  return rms > 1e-5 ? 20 * Math.log10(rms) : -100;
+}
+
+/** Sign changes per sample, a cheap stand-in for where the energy sits. */
+export function zeroCrossingRate(pcm: Int16Array): number {
+  let crossings = 0;
+  for (let i = 1; i < pcm.length; i++) {
+    if (pcm[i - 1] < 0 !== pcm[i] < 0) crossings++;
+  }
+  return pcm.length > 1 ? crossings / (pcm.length - 1) : 0;
+}
+
+/** The most recent chunks, up to a duration. */
+export class PreRollBuffer {
+  private chunks: Int16Array[] = [];
+  private totalMs = 0;
+
+  constructor(
+    private readonly maxMs: number,
+    private readonly sampleRate: number,
+  ) {}
+
+  push(pcm: Int16Array) {
+    this.chunks.push(pcm);
+    this.totalMs += this.durationMs(pcm);
+    while (
+      this.chunks.length > 0 &&
+      this.totalMs - this.durationMs(this.chunks[0]) >= this.maxMs
+    ) {
+      this.totalMs -= this.durationMs(this.chunks.shift()!);
+    }
+  }
+
+  /** Empties the buffer and returns what it held, oldest first. */
+  take(): Int16Array[] {
+    const out = this.chunks;
+    this.clear();
+    return out;
+  }
+
+  clear() {
+    this.chunks = [];
+    this.totalMs = 0;
+  }
+
+  private durationMs(pcm: Int16Array) {
+    return (pcm.length / this.sampleRate) * 1000;
+  }
+}
+
+/**
+ * Energy-based voice activity detector with an adaptive noise floor.
+ *
+ * Feed it every captured chunk in order; it returns the chunks that should
+ * be sent now, which is nothing while silent, the pre-roll plus the current
+ * chunk when speech starts, and the current chunk during speech and
+ * hangover.
+ */
+export class VoiceActivityDetector {
+  onStateChange: (state: VadState) => void = () => {};
+
+  private readonly options: VadOptions;
+  private currentState: VadState = 'silence';
+  private noiseFloor: number;
+  private lastLevel = -100;
+  private hangoverLeftMs = 0;
+  private readonly preRoll: PreRollBuffer;
+
+  constructor(options: Partial<VadOptions> = {}) {
+    this.options = {...DEFAULT_VAD_OPTIONS, ...options};
+    this.preRoll = new PreRollBuffer(
+      this.options.preRollMs,
+      this.options.sampleRate,
+    );
+    this.noiseFloor = this.options.minLevelDb - this.options.thresholdDb;
+  }
+
+  get state(): VadState {
+    return this.currentState;
+  }
+
+  /** Level of the last chunk, in dBFS. */
+  get level() {
+    return this.lastLevel;
+  }
+
+  get noiseFloorDb() {
+    return this.noiseFloor;
+  }
+
+  /** Whether a chunk looks like speech, without changing any state. */
+  isSpeech(pcm: Int16Array): boolean {
+    const level = levelDb(pcm);
+    const zcr = zeroCrossingRate(pcm);
+    const {thresholdDb, minLevelDb, minZeroCrossingRate, maxZeroCrossingRate} =
+      this.options;
+    return (
+      level >= Math.max(minLevelDb, this.noiseFloor + thresholdDb) &&
+      zcr >= minZeroCrossingRate &&
+      zcr <= maxZeroCrossingRate
+    );
+  }
+
+  process(pcm: Int16Array): Int16Array[] {
+    const speech = this.isSpeech(pcm);
+    this.lastLevel = levelDb(pcm);
+    this.trackNoiseFloor();
+    const durationMs = (pcm.length / this.options.sampleRate) * 1000;
+
+    if (speech) {
+      this.hangoverLeftMs = this.options.hangoverMs;
+      if (this.currentState === 'silence') {
+        const out = [...this.preRoll.take(), pcm];
+        this.setState('speech');
+        return out;
+      }
+      this.setState('speech');
+      return [pcm];
+    }
+
+    if (this.currentState !== 'silence') {
+      this.hangoverLeftMs -= durationMs;
+      if (this.hangoverLeftMs > 0) {
+        this.setState('hangover');
+        return [pcm];
+      }
+      this.setState('silence');
+    }
+
+    this.preRoll.push(pcm);
+    return [];
+  }
+
+  reset() {
+    this.preRoll.clear();
+    this.hangoverLeftMs = 0;
+    this.noiseFloor = this.options.minLevelDb - this.options.thresholdDb;
+    this.setState('silence');
+  }
+
+  private trackNoiseFloor() {
+    // Fall at once to quieter levels, rise slowly so a loud room is learned
+    // but a single cough is not. The pauses between words pull the floor
+    // back down while speaking.
+    if (this.lastLevel < this.noiseFloor) {
+      this.noiseFloor = this.lastLevel;
+    } else {
+      const a =
+        this.currentState === 'silence'
+          ? this.options.noiseAdaptation
+          : this.options.speechNoiseAdaptation;
+      this.noiseFloor += a * (this.lastLevel - this.noiseFloor);
+    }
+  }
+
+  private setState(state: VadState) {
+    if (state === this.currentState) return;
+    this.currentState = state;
+    this.onStateChange(state);
+  }
+}
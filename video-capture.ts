@@ -0,0 +1,172 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type {Blob as MediaBlob} from '@google/genai';
+import {encode} from './utils';
+
+export type VideoSourceKind = 'camera' | 'screen';
+
+export interface VideoOptions {
+  /** Frames sent per second. The Live API samples video at about 1 fps. */
+  fps: number;
+  /** Longest side of a sent frame, in pixels. */
+  maxDimension: number;
+  /** JPEG quality, 0 to 1. */
+  quality: number;
+}
+
+export const DEFAULT_VIDEO_OPTIONS: VideoOptions = {
+  fps: 1,
+  maxDimension: 768,
+  quality: 0.7,
+};
+
+export interface VideoStats {
+  framesSent: number;
+  /** Average size of the frames sent over the last few seconds. */
+  bytesPerSecond: number;
+  /** Size of the last frame, in pixels. */
+  width: number;
+  height: number;
+}
+
+/** Window over which `bytesPerSecond` is averaged. */
+const STATS_WINDOW_MS = 5000;
+
+/**
+ * Samples a camera or screen-share stream into JPEG frames for a live
+ * session.
+ *
+ * Frames are drawn onto a canvas no larger than `maxDimension` and encoded
+ * off the main thread by `canvas.toBlob`. A frame is skipped while the
+ * previous one is still encoding, so slow machines send fewer frames rather
+ * than a backlog.
+ */
+export class VideoCapture {
+  /** Called with each encoded frame. */
+  onFrame: (frame: MediaBlob) => void = () => {};
+  /** Called when the stream ends on its own, e.g. "Stop sharing". */
+  onEnded: () => void = () => {};
+  /** Called after each frame with updated stats. */
+  onStats: (stats: VideoStats) => void = () => {};
+
+  private options: VideoOptions;
+  private currentKind: VideoSourceKind | null = null;
+  private mediaStream: MediaStream | null = null;
+  private readonly video = document.createElement('video');
+  private readonly canvas = document.createElement('canvas');
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private encoding = false;
+  private framesSent = 0;
+  private recent: {at: number; bytes: number}[] = [];
+
+  constructor(options: Partial<VideoOptions> = {}) {
+    this.options = {...DEFAULT_VIDEO_OPTIONS, ...options};
+    this.video.muted = true;
+    this.video.playsInline = true;
+  }
+
+  get kind(): VideoSourceKind | null {
+    return this.currentKind;
+  }
+
+  /** The stream being sampled, for a preview. */
+  get stream(): MediaStream | null {
+    return this.mediaStream;
+  }
+
+  get stats(): VideoStats {
+    const now = performance.now();
+    this.recent = this.recent.filter((f) => now - f.at < STATS_WINDOW_MS);
+    const bytes = this.recent.reduce((sum, f) => sum + f.bytes, 0);
+    return {
+      framesSent: this.framesSent,
+      bytesPerSecond: bytes / (STATS_WINDOW_MS / 1000),
+      width: this.canvas.width,
+      height: this.canvas.height,
+    };
+  }
+
+  /**
+   * Opens the camera or asks which screen to share, and starts sampling.
+   * Any previous source is stopped first.
+   */
+  async start(kind: VideoSourceKind) {
+    this.stop();
+    const stream =
+      kind === 'camera'
+        ? await navigator.mediaDevices.getUserMedia({video: true, audio: false})
+        : await navigator.mediaDevices.getDisplayMedia({
+            video: true,
+            audio: false,
+          });
+    this.mediaStream = stream;
+    this.currentKind = kind;
+    stream.getVideoTracks()[0]?.addEventListener('ended', () => {
+      if (this.mediaStream !== stream) return;
+      this.stop();
+      this.onEnded();
+    });
+    this.video.srcObject = stream;
+    await this.video.play();
+    this.schedule();
+  }
+
+  stop() {
+    this.clearTimer();
+    this.mediaStream?.getTracks().forEach((track) => track.stop());
+    this.mediaStream = null;
+    this.currentKind = null;
+    this.video.srcObject = null;
+  }
+
+  /** Changes frame rate, size or quality; applies from the next frame. */
+  configure(options: Partial<VideoOptions>) {
+    this.options = {...this.options, ...options};
+    if (this.mediaStream) this.schedule();
+  }
+
+  private schedule() {
+    this.clearTimer();
+    const fps = Math.max(0.1, this.options.fps);
+    this.timer = setInterval(() => void this.captureFrame(), 1000 / fps);
+  }
+
+  private clearTimer() {
+    if (this.timer !== null) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async captureFrame() {
+    const {videoWidth, videoHeight} = this.video;
+    if (this.encoding || !videoWidth || !videoHeight) return;
+    this.encoding = true;
+    try {
+      const scale = Math.min(
+        1,
+        this.options.maxDimension / Math.max(videoWidth, videoHeight),
+      );
+      this.canvas.width = Math.round(videoWidth * scale);
+      this.canvas.height = Math.round(videoHeight * scale);
+      this.canvas
+        .getContext('2d')!
+        .drawImage(this.video, 0, 0, this.canvas.width, this.canvas.height);
+
+      const jpeg = await new Promise<Blob | null>((resolve) =>
+        this.canvas.toBlob(resolve, 'image/jpeg', this.options.quality),
+      );
+      // Stopped while encoding.
+      if (!jpeg || !this.mediaStream) return;
+      const bytes = new Uint8Array(await jpeg.arrayBuffer());
+      this.framesSent++;
+      this.recent.push({at: performance.now(), bytes: bytes.byteLength});
+      this.onFrame({data: encode(bytes), mimeType: 'image/jpeg'});
+      this.onStats(this.stats);
+    } finally {
+      this.encoding = false;
+    }
+  }
+}
@@ -0,0 +1,192 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import {LitElement, css, html} from 'lit';
+import {customElement, property} from 'lit/decorators.js';
+import type {VideoOptions, VideoSourceKind, VideoStats} from './video-capture';
+
+const FRAME_RATES = [0.5, 1, 2];
+
+/** Frame size and JPEG quality pairs, smallest first. */
+const QUALITY_PRESETS = [
+  {label: 'Low', maxDimension: 512, quality: 0.5},
+  {label: 'Medium', maxDimension: 768, quality: 0.7},
+  {label: 'High', maxDimension: 1024, quality: 0.85},
+];
+
+/**
+ * Camera and screen-share controls with a preview tile. `disabled` only
+ * blocks starting a source; a running one can always be stopped. Fires
+ * `video-source-change` with the source to switch to (null to stop) and
+ * `video-options-change` with new frame rate or quality settings.
+ */
+@customElement('gdm-video-panel')
+export class GdmVideoPanel extends LitElement {
+  @property({attribute: false}) stream: MediaStream | null = null;
+  @property() kind: VideoSourceKind | null = null;
+  @property({attribute: false}) options!: VideoOptions;
+  @property({attribute: false}) stats: VideoStats | null = null;
+  @property({type: Boolean}) disabled = false;
+
+  static styles = css`
+    :host {
+      display: flex;
+      flex-direction: column;
+      gap: 6px;
+      width: 200px;
+      padding: 8px;
+      box-sizing: border-box;
+      color: white;
+      font-size: 12px;
+      background-color: rgba(0, 0, 0, 0.5);
+      border: 1px solid rgba(255, 255, 255, 0.2);
+      border-radius: 12px;
+    }
+
+    video {
+      width: 100%;
+      aspect-ratio: 16 / 9;
+      object-fit: contain;
+      background: black;
+      border-radius: 6px;
+    }
+
+    .buttons,
+    .options {
+      display: flex;
+      gap: 6px;
+    }
+
+    button,
+    select {
+      flex: 1;
+      font: inherit;
+      color: white;
+      background: rgba(255, 255, 255, 0.1);
+      border: 1px solid rgba(255, 255, 255, 0.2);
+      border-radius: 6px;
+      padding: 4px;
+      cursor: pointer;
+    }
+
+    button:hover {
+      background: rgba(255, 255, 255, 0.2);
+    }
+
+    button[aria-pressed='true'] {
+      background: rgba(96, 165, 250, 0.4);
+    }
+
+    button:disabled {
+      opacity: 0.5;
+      cursor: not-allowed;
+    }
+
+    option {
+      color: black;
+    }
+
+    .stats {
+      opacity: 0.7;
+    }
+  `;
+
+  private selectSource(kind: VideoSourceKind | null) {
+    this.dispatchEvent(
+      new CustomEvent<VideoSourceKind | null>('video-source-change', {
+        detail: kind === this.kind ? null : kind,
+        bubbles: true,
+        composed: true,
+      }),
+    );
+  }
+
+  private changeOptions(options: Partial<VideoOptions>) {
+    this.dispatchEvent(
+      new CustomEvent<Partial<VideoOptions>>('video-options-change', {
+        detail: options,
+        bubbles: true,
+        composed: true,
+      }),
+    );
+  }
+
+  private renderStats() {
+    if (!this.stats || !this.kind) return '';
+    const {bytesPerSecond, width, height} = this.stats;
+    return html`<div class="stats">
+      ${this.options.fps} fps · ${(bytesPerSecond / 1024).toFixed(1)} KB/s ·
+      ${width}×${height}
+    </div>`;
+  }
+
+  protected render() {
+    const preset = QUALITY_PRESETS.findIndex(
+      (p) => p.maxDimension === this.options.maxDimension,
+    );
+    return html`
+      ${this.stream
+        ? html`<video
+            .srcObject=${this.stream}
+            autoplay
+            muted
+            playsinline
+            aria-label="Video preview"></video>`
+        : ''}
+      <div class="buttons">
+        <button
+          ?disabled=${this.disabled && this.kind !== 'camera'}
+          aria-pressed=${this.kind === 'camera'}
+          @click=${() => this.selectSource('camera')}>
+          Camera
+        </button>
+        <button
+          ?disabled=${(this.disabled && this.kind !== 'screen') ||
+          !navigator.mediaDevices?.getDisplayMedia}
+          aria-pressed=${this.kind === 'screen'}
+          @click=${() => this.selectSource('screen')}>
+          Screen
+        </button>
+      </div>
+      <div class="options">
+        <select
+          aria-label="Frame rate"
+          @change=${(e: Event) =>
+            this.changeOptions({
+              fps: Number((e.target as HTMLSelectElement).value),
+            })}>
+          ${FRAME_RATES.map(
+            (fps) =>
+              html`<option value=${fps} ?selected=${fps === this.options.fps}>
+                ${fps} fps
+              </option>`,
+          )}
+        </select>
+        <select
+          aria-label="Quality"
+          @change=${(e: Event) => {
+            const {maxDimension, quality} =
+              QUALITY_PRESETS[Number((e.target as HTMLSelectElement).value)];
+            this.changeOptions({maxDimension, quality});
+          }}>
+          ${QUALITY_PRESETS.map(
+            (p, i) =>
+              html`<option value=${i} ?selected=${i === preset}>
+                ${p.label} (${p.maxDimension}px)
+              </option>`,
+          )}
+        </select>
+      </div>
+      ${this.renderStats()}
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'gdm-video-panel': GdmVideoPanel;
+  }
+}
@@ -7,9 +7,22 @@
 // tslint:disable:ban-malformed-import-paths
 // tslint:disable:no-new-decorators
 
-import {LitElement, css, html} from 'lit';
+import {LitElement, PropertyValues, css, html} from 'lit';
 import {customElement, property} from 'lit/decorators.js';
-import {Analyser} from './analyser';
+import {FeatureExtractor} from './audio-features';
+import {ElementSize, ElementSizer} from './element-size';
+import {createLogger} from './logger';
+import {RenderLoop} from './render-loop';
+import type {VadState} from './vad';
+import type {AudioVisualizer} from './visualizers';
+import {
+  BUILTIN_PRESETS,
+  MIDNIGHT_PRESET,
+  VisualPreset,
+  fetchPreset,
+  lerpPreset,
+  parsePreset,
+} from './visual-presets';
 
 import * as THREE from 'three';
 import {EXRLoader} from 'three/addons/loaders/EXRLoader.js';
@@ -21,26 +34,76 @@ import {FXAAShader} from 'three/addons/shaders/FXAAShader.js';
 import {fs as backdropFS, vs as backdropVS} from './backdrop-shader';
 import {vs as sphereVS} from './sphere-shader';
 
+const log = createLogger('visual');
+
 /**
- * 3D live audio visual.
+ * 3D live audio visual. Its look comes from a `VisualPreset`; setting
+ * `preset` to another registered name blends to it over
+ * `preset-transition` milliseconds.
+ *
+ * The scene fills the element and follows its size and the device pixel
+ * ratio. It exists only while the element is connected and is disposed on
+ * disconnect, so the element can be mounted and unmounted repeatedly.
+ * Rendering pauses while the element cannot be seen.
  */
 @customElement('gdm-live-audio-visuals-3d')
-export class GdmLiveAudioVisuals3D extends LitElement {
-  private inputAnalyser!: Analyser;
-  private outputAnalyser!: Analyser;
+export class GdmLiveAudioVisuals3D
+  extends LitElement
+  implements AudioVisualizer
+{
+  private inputFeatures: FeatureExtractor | null = null;
+  private outputFeatures: FeatureExtractor | null = null;
+  private renderer: THREE.WebGLRenderer | null = null;
+  private scene!: THREE.Scene;
   private camera!: THREE.PerspectiveCamera;
   private backdrop!: THREE.Mesh;
   private composer!: EffectComposer;
+  private bloomPass!: UnrealBloomPass;
+  private fxaaPass!: ShaderPass;
+  private pmremGenerator!: THREE.PMREMGenerator;
+  private envTarget: THREE.WebGLRenderTarget | null = null;
   private sphere!: THREE.Mesh;
+  private readonly loop = new RenderLoop(this, () => this.animation());
+  private readonly sizer = new ElementSizer(this);
   private prevTime = 0;
   private rotation = new THREE.Vector3(0, 0, 0);
+  /** Eased 0..1 glow that follows whether the user's speech is being sent. */
+  private speechGlow = 0;
+
+  /** Voice activity of the microphone; the sphere glows while it is open. */
+  @property({attribute: false}) vadState: VadState = 'silence';
+
+  /** Name of the preset to show; see `registerPreset` for custom looks. */
+  @property() preset = MIDNIGHT_PRESET.name;
+
+  /** Duration of the blend when `preset` changes, in milliseconds. */
+  @property({type: Number, attribute: 'preset-transition'})
+  presetTransition = 800;
+
+  /**
+   * Caps the pixel ratio the scene is rendered at; unlimited by default.
+   * Lower it to trade sharpness for frame rate on dense screens.
+   */
+  @property({type: Number, attribute: 'max-pixel-ratio'})
+  maxPixelRatio = Infinity;
+
+  private readonly presets = new Map(BUILTIN_PRESETS.map((p) => [p.name, p]));
+  /** The look on screen, part way between `fromLook` and `targetLook`. */
+  private look = MIDNIGHT_PRESET;
+  private fromLook = MIDNIGHT_PRESET;
+  private targetLook = MIDNIGHT_PRESET;
+  private transitionStart = 0;
+  private transitionMs = 0;
 
   private _outputNode!: AudioNode;
 
   @property()
   set outputNode(node: AudioNode) {
     this._outputNode = node;
-    this.outputAnalyser = new Analyser(this._outputNode);
+    if (this.isConnected) {
+      this.outputFeatures?.disconnect();
+      this.outputFeatures = new FeatureExtractor(node);
+    }
   }
 
   get outputNode() {
@@ -52,7 +115,10 @@ export class GdmLiveAudioVisuals3D extends LitElement {
   @property()
   set inputNode(node: AudioNode) {
     this._inputNode = node;
-    this.inputAnalyser = new Analyser(this._inputNode);
+    if (this.isConnected) {
+      this.inputFeatures?.disconnect();
+      this.inputFeatures = new FeatureExtractor(node);
+    }
   }
 
   get inputNode() {
@@ -62,6 +128,12 @@ export class GdmLiveAudioVisuals3D extends LitElement {
   private canvas!: HTMLCanvasElement;
 
   static styles = css`
+    :host {
+      display: block;
+      position: relative;
+      overflow: hidden;
+    }
+
     canvas {
       width: 100% !important;
       height: 100% !important;
@@ -73,10 +145,98 @@ export class GdmLiveAudioVisuals3D extends LitElement {
 
   connectedCallback() {
     super.connectedCallback();
+    if (this._inputNode) {
+      this.inputFeatures = new FeatureExtractor(this._inputNode);
+    }
+    if (this._outputNode) {
+      this.outputFeatures = new FeatureExtractor(this._outputNode);
+    }
+    // Mounted again after a disconnect; the first mount initializes in
+    // firstUpdated, once the canvas exists.
+    if (this.canvas && !this.renderer) this.init();
+  }
+
+  disconnectedCallback() {
+    this.loop.stop();
+    this.dispose();
+    this.inputFeatures?.disconnect();
+    this.outputFeatures?.disconnect();
+    this.inputFeatures = null;
+    this.outputFeatures = null;
+    super.disconnectedCallback();
+  }
+
+  /** Presets that `preset` can name, built-in ones first. */
+  get availablePresets(): VisualPreset[] {
+    return [...this.presets.values()];
+  }
+
+  /**
+   * Adds a preset from parsed JSON, replacing any with the same name, and
+   * returns it. Throws if the JSON is not a valid preset.
+   */
+  registerPreset(json: unknown): VisualPreset {
+    const preset = parsePreset(json);
+    this.presets.set(preset.name, preset);
+    if (preset.name === this.preset) this.transitionTo(preset.name);
+    return preset;
+  }
+
+  /** Fetches a preset file and registers it. */
+  async loadPreset(url: string): Promise<VisualPreset> {
+    const preset = await fetchPreset(url);
+    return this.registerPreset(preset);
+  }
+
+  private transitionTo(name: string) {
+    const preset = this.presets.get(name);
+    if (!preset) {
+      log.warn(`Unknown visual preset "${name}".`);
+      return;
+    }
+    this.fromLook = this.look;
+    this.targetLook = preset;
+    this.transitionStart = performance.now();
+    this.transitionMs = Math.max(0, this.presetTransition);
+  }
+
+  /** Pushes the current look's colors, material and bloom to the scene. */
+  private applyLook() {
+    const {sphere, bloom, backdrop, camera} = this.look;
+    const sphereMaterial = this.sphere.material as THREE.MeshStandardMaterial;
+    sphereMaterial.color.set(sphere.color);
+    sphereMaterial.emissive.set(sphere.emissive);
+    sphereMaterial.metalness = sphere.metalness;
+    sphereMaterial.roughness = sphere.roughness;
+
+    this.bloomPass.strength = bloom.strength;
+    this.bloomPass.radius = bloom.radius;
+    this.bloomPass.threshold = bloom.threshold;
+
+    // The backdrop shader writes these straight to the output, so they are
+    // taken as they are rather than converted from sRGB.
+    const {uniforms} = this.backdrop.material as THREE.RawShaderMaterial;
+    uniforms.inner.value.setStyle(backdrop.inner, THREE.LinearSRGBColorSpace);
+    uniforms.outer.value.setStyle(backdrop.outer, THREE.LinearSRGBColorSpace);
+    uniforms.falloff.value = backdrop.falloff;
+    uniforms.grain.value = backdrop.grain;
+
+    if (this.camera.fov !== camera.fov) {
+      this.camera.fov = camera.fov;
+      this.camera.updateProjectionMatrix();
+    }
+  }
+
+  protected updated(changed: PropertyValues<this>) {
+    if (changed.has('preset')) this.transitionTo(this.preset);
+    if (changed.has('maxPixelRatio')) {
+      this.sizer.maxPixelRatio = this.maxPixelRatio;
+    }
   }
 
   private init() {
     const scene = new THREE.Scene();
+    this.scene = scene;
     scene.background = new THREE.Color(0x100c14);
 
     const backdrop = new THREE.Mesh(
@@ -85,6 +245,10 @@ export class GdmLiveAudioVisuals3D extends LitElement {
         uniforms: {
           resolution: {value: new THREE.Vector2(1, 1)},
           rand: {value: 0},
+          inner: {value: new THREE.Color()},
+          outer: {value: new THREE.Color()},
+          falloff: {value: 0},
+          grain: {value: 0},
         },
         vertexShader: backdropVS,
         fragmentShader: backdropFS,
@@ -95,12 +259,7 @@ export class GdmLiveAudioVisuals3D extends LitElement {
     scene.add(backdrop);
     this.backdrop = backdrop;
 
-    const camera = new THREE.PerspectiveCamera(
-      75,
-      window.innerWidth / window.innerHeight,
-      0.1,
-      1000,
-    );
+    const camera = new THREE.PerspectiveCamera(75, 1, 0.1, 1000);
     camera.position.set(2, -2, 5);
     this.camera = camera;
 
@@ -108,28 +267,29 @@ export class GdmLiveAudioVisuals3D extends LitElement {
       canvas: this.canvas,
       antialias: !true,
     });
-    renderer.setSize(window.innerWidth, window.innerHeight);
-    renderer.setPixelRatio(window.devicePixelRatio / 1);
+    this.renderer = renderer;
 
     const geometry = new THREE.IcosahedronGeometry(1, 10);
 
     new EXRLoader().load('piz_compressed.exr', (texture: THREE.Texture) => {
+      // Disposed, or disposed and initialized again, while loading.
+      if (this.renderer !== renderer) {
+        texture.dispose();
+        return;
+      }
       texture.mapping = THREE.EquirectangularReflectionMapping;
       const exrCubeRenderTarget = pmremGenerator.fromEquirectangular(texture);
+      texture.dispose();
+      this.envTarget = exrCubeRenderTarget;
       sphereMaterial.envMap = exrCubeRenderTarget.texture;
       sphere.visible = true;
     });
 
     const pmremGenerator = new THREE.PMREMGenerator(renderer);
     pmremGenerator.compileEquirectangularShader();
+    this.pmremGenerator = pmremGenerator;
 
-    const sphereMaterial = new THREE.MeshStandardMaterial({
-      color: 0x000010,
-      metalness: 0.5,
-      roughness: 0.1,
-      emissive: 0x000010,
-      emissiveIntensity: 1.5,
-    });
+    const sphereMaterial = new THREE.MeshStandardMaterial();
 
     sphereMaterial.onBeforeCompile = (shader) => {
       shader.uniforms.time = {value: 0};
@@ -150,13 +310,15 @@ export class GdmLiveAudioVisuals3D extends LitElement {
     const renderPass = new RenderPass(scene, camera);
 
     const bloomPass = new UnrealBloomPass(
-      new THREE.Vector2(window.innerWidth, window.innerHeight),
-      5,
-      0.5,
-      0,
+      new THREE.Vector2(1, 1),
+      this.look.bloom.strength,
+      this.look.bloom.radius,
+      this.look.bloom.threshold,
     );
+    this.bloomPass = bloomPass;
 
     const fxaaPass = new ShaderPass(FXAAShader);
+    this.fxaaPass = fxaaPass;
 
     const composer = new EffectComposer(renderer);
     composer.addPass(renderPass);
@@ -164,52 +326,98 @@ export class GdmLiveAudioVisuals3D extends LitElement {
     composer.addPass(bloomPass);
 
     this.composer = composer;
+    this.applyLook();
 
-    function onWindowResize() {
-      camera.aspect = window.innerWidth / window.innerHeight;
-      camera.updateProjectionMatrix();
-      const dPR = renderer.getPixelRatio();
-      const w = window.innerWidth;
-      const h = window.innerHeight;
-      backdrop.material.uniforms.resolution.value.set(w * dPR, h * dPR);
-      renderer.setSize(w, h);
-      composer.setSize(w, h);
-      fxaaPass.material.uniforms['resolution'].value.set(
-        1 / (w * dPR),
-        1 / (h * dPR),
-      );
-    }
+    // Sizes the renderer right away, then on every resize.
+    this.sizer.onResize = (size) => this.resize(size);
+    this.sizer.start();
+
+    this.prevTime = performance.now();
+    this.loop.start();
+  }
 
-    window.addEventListener('resize', onWindowResize);
-    onWindowResize();
+  private resize({width, height, pixelRatio}: ElementSize) {
+    if (!this.renderer || !width || !height) return;
+    this.camera.aspect = width / height;
+    this.camera.updateProjectionMatrix();
+    const backdrop = this.backdrop.material as THREE.RawShaderMaterial;
+    backdrop.uniforms.resolution.value.set(
+      width * pixelRatio,
+      height * pixelRatio,
+    );
+    this.renderer.setPixelRatio(pixelRatio);
+    this.renderer.setSize(width, height, false);
+    this.composer.setPixelRatio(pixelRatio);
+    this.composer.setSize(width, height);
+    this.fxaaPass.material.uniforms['resolution'].value.set(
+      1 / (width * pixelRatio),
+      1 / (height * pixelRatio),
+    );
+  }
 
-    this.animation();
+  /** Releases the scene's GPU resources and stops following the size. */
+  private dispose() {
+    if (!this.renderer) return;
+    this.sizer.stop();
+
+    this.scene.traverse((object: THREE.Object3D) => {
+      if (object instanceof THREE.Mesh) {
+        object.geometry.dispose();
+        object.material.dispose();
+      }
+    });
+    this.envTarget?.dispose();
+    this.envTarget = null;
+    this.pmremGenerator.dispose();
+    for (const pass of this.composer.passes) pass.dispose();
+    this.composer.dispose();
+    this.fxaaPass.dispose();
+    this.renderer.dispose();
+    this.renderer = null;
   }
 
   private animation() {
-    requestAnimationFrame(() => this.animation());
-
-    this.inputAnalyser.update();
-    this.outputAnalyser.update();
+    if (!this.renderer || !this.inputFeatures || !this.outputFeatures) return;
+    const input = this.inputFeatures.update();
+    const output = this.outputFeatures.update();
 
     const t = performance.now();
-    const dt = (t - this.prevTime) / (1000 / 60);
+    // Frames missed while paused are not made up for in one jump.
+    const dt = Math.min(t - this.prevTime, 100) / (1000 / 60);
     this.prevTime = t;
     const backdropMaterial = this.backdrop.material as THREE.RawShaderMaterial;
     const sphereMaterial = this.sphere.material as THREE.MeshStandardMaterial;
 
     backdropMaterial.uniforms.rand.value = Math.random() * 10000;
 
+    if (this.look !== this.targetLook) {
+      const progress = this.transitionMs
+        ? (t - this.transitionStart) / this.transitionMs
+        : 1;
+      // Smoothstep, so the blend eases in and out.
+      const eased = progress * progress * (3 - 2 * progress);
+      this.look =
+        progress >= 1
+          ? this.targetLook
+          : lerpPreset(this.fromLook, this.targetLook, eased);
+      this.applyLook();
+    }
+    const {sphere, displacement, camera} = this.look;
+
+    const glowTarget =
+      this.vadState === 'speech' ? 1 : this.vadState === 'hangover' ? 0.5 : 0;
+    this.speechGlow += (glowTarget - this.speechGlow) * Math.min(1, 0.1 * dt);
+    sphereMaterial.emissiveIntensity =
+      sphere.emissiveIntensity + sphere.speechGlow * this.speechGlow;
+
     if (sphereMaterial.userData.shader) {
-      this.sphere.scale.setScalar(
-        1 + (0.2 * this.outputAnalyser.data[1]) / 255,
-      );
+      this.sphere.scale.setScalar(1 + displacement.pulse * output.mid);
 
       const f = 0.001;
-      this.rotation.x += (dt * f * 0.5 * this.outputAnalyser.data[1]) / 255;
-      this.rotation.z += (dt * f * 0.5 * this.inputAnalyser.data[1]) / 255;
-      this.rotation.y += (dt * f * 0.25 * this.inputAnalyser.data[2]) / 255;
-      this.rotation.y += (dt * f * 0.25 * this.outputAnalyser.data[2]) / 255;
+      this.rotation.x += dt * f * camera.orbit.x * output.mid;
+      this.rotation.z += dt * f * camera.orbit.z * input.mid;
+      this.rotation.y += dt * f * camera.orbit.y * input.high;
+      this.rotation.y += dt * f * camera.orbit.y * output.high;
 
       const euler = new THREE.Euler(
         this.rotation.x,
@@ -217,23 +425,23 @@ export class GdmLiveAudioVisuals3D extends LitElement {
         this.rotation.z,
       );
       const quaternion = new THREE.Quaternion().setFromEuler(euler);
-      const vector = new THREE.Vector3(0, 0, 5);
+      const vector = new THREE.Vector3(0, 0, camera.distance);
       vector.applyQuaternion(quaternion);
       this.camera.position.copy(vector);
       this.camera.lookAt(this.sphere.position);
 
       sphereMaterial.userData.shader.uniforms.time.value +=
-        (dt * 0.1 * this.outputAnalyser.data[0]) / 255;
+        dt * displacement.timeScale * output.low;
       sphereMaterial.userData.shader.uniforms.inputData.value.set(
-        (1 * this.inputAnalyser.data[0]) / 255,
-        (0.1 * this.inputAnalyser.data[1]) / 255,
-        (10 * this.inputAnalyser.data[2]) / 255,
+        displacement.input.low * input.low,
+        displacement.input.mid * input.mid,
+        displacement.input.high * input.high,
         0,
       );
       sphereMaterial.userData.shader.uniforms.outputData.value.set(
-        (2 * this.outputAnalyser.data[0]) / 255,
-        (0.1 * this.outputAnalyser.data[1]) / 255,
-        (10 * this.outputAnalyser.data[2]) / 255,
+        displacement.output.low * output.low,
+        displacement.output.mid * output.mid,
+        displacement.output.high * output.high,
         0,
       );
     }
@@ -243,7 +451,7 @@ export class GdmLiveAudioVisuals3D extends LitElement {
 
   protected firstUpdated() {
     this.canvas = this.shadowRoot!.querySelector('canvas') as HTMLCanvasElement;
-    this.init();
+    if (this.isConnected) this.init();
   }
 
   protected render() {
@@ -0,0 +1,291 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * Multipliers applied to the low, mid and high audio features before they
+ * reach the sphere shader. The shader displaces vertices by `low * mid` and
+ * uses `high` as the ripple frequency.
+ */
+export interface DisplacementMapping {
+  low: number;
+  mid: number;
+  high: number;
+}
+
+/**
+ * One look of the 3D visualizer. Colors are `#rrggbb` strings so presets can
+ * be written as plain JSON.
+ */
+export interface VisualPreset {
+  name: string;
+  label: string;
+  sphere: {
+    color: string;
+    emissive: string;
+    emissiveIntensity: number;
+    /** Extra emissive intensity while the user's speech is being sent. */
+    speechGlow: number;
+    metalness: number;
+    roughness: number;
+  };
+  bloom: {
+    strength: number;
+    radius: number;
+    threshold: number;
+  };
+  /** Radial gradient behind the sphere, from the centre outwards. */
+  backdrop: {
+    inner: string;
+    outer: string;
+    /** How quickly the gradient reaches the outer color. */
+    falloff: number;
+    /** Amount of film grain noise. */
+    grain: number;
+  };
+  displacement: {
+    /** Microphone features. */
+    input: DisplacementMapping;
+    /** Model playback features. */
+    output: DisplacementMapping;
+    /** Shader time advanced per frame by the output's low band. */
+    timeScale: number;
+    /** Sphere growth at full output mid level. */
+    pulse: number;
+  };
+  camera: {
+    distance: number;
+    fov: number;
+    /**
+     * Orbit speeds: x follows the output's mid band, z the input's mid band
+     * and y the high bands of both.
+     */
+    orbit: {x: number; y: number; z: number};
+  };
+}
+
+/** The look the visualizer shipped with. */
+export const MIDNIGHT_PRESET: VisualPreset = {
+  name: 'midnight',
+  label: 'Midnight',
+  sphere: {
+    color: '#000010',
+    emissive: '#000010',
+    emissiveIntensity: 1.5,
+    speechGlow: 1.5,
+    metalness: 0.5,
+    roughness: 0.1,
+  },
+  bloom: {strength: 5, radius: 0.5, threshold: 0},
+  backdrop: {inner: '#030303', outer: '#020102', falloff: 4, grain: 0.005},
+  displacement: {
+    input: {low: 1, mid: 0.1, high: 10},
+    output: {low: 2, mid: 0.1, high: 10},
+    timeScale: 0.1,
+    pulse: 0.2,
+  },
+  camera: {distance: 5, fov: 75, orbit: {x: 0.5, y: 0.25, z: 0.5}},
+};
+
+export const BUILTIN_PRESETS: VisualPreset[] = [
+  MIDNIGHT_PRESET,
+  {
+    name: 'aurora',
+    label: 'Aurora',
+    sphere: {
+      color: '#002018',
+      emissive: '#00261c',
+      emissiveIntensity: 1.2,
+      speechGlow: 2,
+      metalness: 0.3,
+      roughness: 0.2,
+    },
+    bloom: {strength: 3, radius: 0.8, threshold: 0},
+    backdrop: {inner: '#04110f', outer: '#010306', falloff: 3, grain: 0.008},
+    displacement: {
+      input: {low: 1.5, mid: 0.1, high: 6},
+      output: {low: 2.5, mid: 0.1, high: 6},
+      timeScale: 0.05,
+      pulse: 0.15,
+    },
+    camera: {distance: 5.5, fov: 70, orbit: {x: 0.3, y: 0.4, z: 0.3}},
+  },
+  {
+    name: 'ember',
+    label: 'Ember',
+    sphere: {
+      color: '#1a0600',
+      emissive: '#200800',
+      emissiveIntensity: 1.8,
+      speechGlow: 1.2,
+      metalness: 0.7,
+      roughness: 0.15,
+    },
+    bloom: {strength: 4, radius: 0.4, threshold: 0.05},
+    backdrop: {inner: '#0a0402', outer: '#030101', falloff: 5, grain: 0.006},
+    displacement: {
+      input: {low: 1, mid: 0.15, high: 14},
+      output: {low: 2, mid: 0.15, high: 14},
+      timeScale: 0.15,
+      pulse: 0.3,
+    },
+    camera: {distance: 4.5, fov: 75, orbit: {x: 0.6, y: 0.3, z: 0.6}},
+  },
+  {
+    name: 'chrome',
+    label: 'Chrome',
+    sphere: {
+      color: '#202020',
+      emissive: '#000000',
+      emissiveIntensity: 0,
+      speechGlow: 0.6,
+      metalness: 1,
+      roughness: 0.05,
+    },
+    bloom: {strength: 0.6, radius: 0.3, threshold: 0.6},
+    backdrop: {inner: '#1c1c20', outer: '#050507', falloff: 2, grain: 0.004},
+    displacement: {
+      input: {low: 1, mid: 0.08, high: 8},
+      output: {low: 2, mid: 0.08, high: 8},
+      timeScale: 0.08,
+      pulse: 0.1,
+    },
+    camera: {distance: 5, fov: 60, orbit: {x: 0.4, y: 0.2, z: 0.4}},
+  },
+];
+
+const COLOR = /^#[0-9a-f]{6}$/i;
+
+/**
+ * Returns one message per problem; an empty list means the preset is
+ * usable.
+ */
+export function validatePreset(preset: VisualPreset): string[] {
+  const errors: string[] = [];
+  if (!preset.name?.trim()) errors.push('A preset needs a name.');
+  const check = (value: unknown, path: string, expected: unknown) => {
+    if (typeof expected === 'number') {
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        errors.push(`${path} must be a number.`);
+      }
+    } else if (typeof expected === 'string' && COLOR.test(expected)) {
+      if (typeof value !== 'string' || !COLOR.test(value)) {
+        errors.push(`${path} must be a color like "#1a2b3c".`);
+      }
+    } else if (typeof expected === 'object' && expected) {
+      if (typeof value !== 'object' || !value) {
+        errors.push(`${path} must be an object.`);
+        return;
+      }
+      for (const [key, child] of Object.entries(expected)) {
+        const field = (value as Record<string, unknown>)[key];
+        check(field, `${path}.${key}`, child);
+      }
+    }
+  };
+  for (const [key, expected] of Object.entries(MIDNIGHT_PRESET)) {
+    if (key === 'name' || key === 'label') continue;
+    check((preset as unknown as Record<string, unknown>)[key], key, expected);
+  }
+  return errors;
+}
+
+function merge<T>(base: T, override: unknown): T {
+  if (
+    typeof base !== 'object' ||
+    !base ||
+    typeof override !== 'object' ||
+    !override
+  ) {
+    return (override ?? base) as T;
+  }
+  const out = {...base} as Record<string, unknown>;
+  for (const [key, value] of Object.entries(override)) {
+    out[key] = merge((base as Record<string, unknown>)[key], value);
+  }
+  return out as T;
+}
+
+/**
+ * Reads a preset from parsed JSON. Missing fields are taken from `base`, so
+ * a preset only needs to list what it changes. Throws if the result is not
+ * a usable preset.
+ */
+export function parsePreset(
+  json: unknown,
+  base: VisualPreset = MIDNIGHT_PRESET,
+): VisualPreset {
+  if (typeof json !== 'object' || !json || Array.isArray(json)) {
+    throw new Error('A visual preset must be a JSON object.');
+  }
+  // Never inherit the name, so a preset cannot replace its base by accident.
+  const {name} = json as {name?: unknown};
+  const preset = merge({...base, name: ''}, json);
+  if (typeof name !== 'string') preset.name = '';
+  if (!('label' in json)) preset.label = preset.name;
+  const errors = validatePreset(preset);
+  if (errors.length) {
+    throw new Error(`Invalid visual preset: ${errors.join(' ')}`);
+  }
+  return preset;
+}
+
+/** Fetches and parses a preset file. */
+export async function fetchPreset(url: string): Promise<VisualPreset> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Could not load visual preset ${url}: ${response.status}`);
+  }
+  return parsePreset(await response.json());
+}
+
+function lerpColor(from: string, to: string, t: number) {
+  const a = parseInt(from.slice(1), 16);
+  const b = parseInt(to.slice(1), 16);
+  let out = 0;
+  for (const shift of [16, 8, 0]) {
+    const x = (a >> shift) & 0xff;
+    const y = (b >> shift) & 0xff;
+    out |= Math.round(x + (y - x) * t) << shift;
+  }
+  return `#${out.toString(16).padStart(6, '0')}`;
+}
+
+function lerpValue<T>(from: T, to: T, t: number): T {
+  if (typeof from === 'number' && typeof to === 'number') {
+    return (from + (to - from) * t) as T;
+  }
+  if (
+    typeof from === 'string' &&
+    typeof to === 'string' &&
+    COLOR.test(from) &&
+    COLOR.test(to)
+  ) {
+    return lerpColor(from, to, t) as T;
+  }
+  if (typeof from === 'object' && from && typeof to === 'object' && to) {
+    const out: Record<string, unknown> = {};
+    for (const key of Object.keys(to)) {
+      out[key] = lerpValue(
+        (from as Record<string, unknown>)[key],
+        (to as Record<string, unknown>)[key],
+        t,
+      );
+    }
+    return out as T;
+  }
+  return to;
+}
+
+/**
+ * Blends two presets field by field: numbers linearly, colors per channel.
+ * `t` runs from 0 (`from`) to 1 (`to`); the name and label are `to`'s.
+ */
+export function lerpPreset(
+  from: VisualPreset,
+  to: VisualPreset,
+  t: number,
+): VisualPreset {
+  return lerpValue(from, to, Math.min(1, Math.max(0, t)));
+}
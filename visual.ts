@@ -4,108 +4,168 @@
 */
 /* tslint:disable */
 
-import {LitElement, css, html} from 'lit';
+import {LitElement, PropertyValues, css, html} from 'lit';
 import {customElement, property} from 'lit/decorators.js';
 import {Analyser} from './analyser';
+import {CANVAS_RENDERERS, CanvasMode} from './canvas-renderers';
+import {ElementSize, ElementSizer} from './element-size';
+import {RenderLoop} from './render-loop';
+import type {AudioVisualizer} from './visualizers';
 
+/**
+ * 2D live audio visual. `mode` picks the renderer; see canvas-renderers.ts.
+ * The canvas fills the element and follows its size and the device pixel
+ * ratio. Analysers are attached only while the element is connected, and
+ * drawing pauses while it cannot be seen.
+ */
 @customElement('gdm-live-audio-visuals')
-export class GdmLiveAudioVisuals extends LitElement {
-  private inputAnalyser: Analyser;
-  private outputAnalyser: Analyser;
+export class GdmLiveAudioVisuals extends LitElement implements AudioVisualizer {
+  @property() mode: CanvasMode = 'bars';
+  /** Caps the pixel ratio the canvas is drawn at; unlimited by default. */
+  @property({type: Number, attribute: 'max-pixel-ratio'})
+  maxPixelRatio = Infinity;
+
+  private inputAnalyser: Analyser | null = null;
+  private outputAnalyser: Analyser | null = null;
+  private readonly loop = new RenderLoop(this, () => this.visualize());
+  private readonly sizer = new ElementSizer(this);
 
-  private _outputNode: AudioNode;
+  private _outputNode!: AudioNode;
 
   @property()
   set outputNode(node: AudioNode) {
     this._outputNode = node;
-    this.outputAnalyser = new Analyser(this._outputNode);
+    if (this.isConnected) {
+      this.outputAnalyser = this.attach(node, this.outputAnalyser);
+    }
   }
 
   get outputNode() {
     return this._outputNode;
   }
 
-  private _inputNode: AudioNode;
+  private _inputNode!: AudioNode;
 
   @property()
   set inputNode(node: AudioNode) {
     this._inputNode = node;
-    this.inputAnalyser = new Analyser(this._inputNode);
+    if (this.isConnected) {
+      this.inputAnalyser = this.attach(node, this.inputAnalyser);
+    }
   }
 
   get inputNode() {
     return this._inputNode;
   }
 
-  private canvas: HTMLCanvasElement;
-  private canvasCtx: CanvasRenderingContext2D;
+  private canvas!: HTMLCanvasElement;
+  private canvasCtx!: CanvasRenderingContext2D;
 
   static styles = css`
+    :host {
+      display: block;
+      position: relative;
+      overflow: hidden;
+      background: #100c14;
+    }
+
     canvas {
-      width: 400px;
-      aspect-ratio: 1 / 1;
+      position: absolute;
+      inset: 0;
+      width: 100%;
+      height: 100%;
     }
   `;
 
-  connectedCallback() {
-    super.connectedCallback();
-    this.visualize();
+  private get renderer() {
+    return CANVAS_RENDERERS[this.mode] ?? CANVAS_RENDERERS.bars;
   }
 
-  private visualize() {
-    if (this.canvas && this.outputAnalyser) {
-      const canvas = this.canvas;
-      const canvasCtx = this.canvasCtx;
-
-      const WIDTH = canvas.width;
-      const HEIGHT = canvas.height;
+  /** Replaces `previous` with an analyser sized for the current mode. */
+  private attach(node: AudioNode, previous: Analyser | null) {
+    previous?.disconnect();
+    return new Analyser(node, this.renderer.fftSize);
+  }
 
-      canvasCtx.clearRect(0, 0, WIDTH, HEIGHT);
-      canvasCtx.fillStyle = '#1f2937';
-      canvasCtx.fillRect(0, 0, WIDTH, HEIGHT);
+  private attachAnalysers() {
+    if (this._inputNode) {
+      this.inputAnalyser = this.attach(this._inputNode, this.inputAnalyser);
+    }
+    if (this._outputNode) {
+      this.outputAnalyser = this.attach(this._outputNode, this.outputAnalyser);
+    }
+  }
 
-      const barWidth = WIDTH / this.outputAnalyser.data.length;
-      let x = 0;
+  private detachAnalysers() {
+    this.inputAnalyser?.disconnect();
+    this.outputAnalyser?.disconnect();
+    this.inputAnalyser = null;
+    this.outputAnalyser = null;
+  }
 
-      const inputGradient = canvasCtx.createLinearGradient(0, 0, 0, HEIGHT);
-      inputGradient.addColorStop(1, '#D16BA5');
-      inputGradient.addColorStop(0.5, '#E78686');
-      inputGradient.addColorStop(0, '#FB5F5F');
-      canvasCtx.fillStyle = inputGradient;
+  connectedCallback() {
+    super.connectedCallback();
+    this.attachAnalysers();
+    if (this.canvas) this.sizer.start();
+    this.loop.start();
+  }
 
-      this.inputAnalyser.update();
+  disconnectedCallback() {
+    this.loop.stop();
+    this.sizer.stop();
+    this.detachAnalysers();
+    super.disconnectedCallback();
+  }
 
-      for (let i = 0; i < this.inputAnalyser.data.length; i++) {
-        const barHeight = this.inputAnalyser.data[i] * (HEIGHT / 255);
-        canvasCtx.fillRect(x, HEIGHT - barHeight, barWidth, barHeight);
-        x += barWidth;
-      }
+  private resize({width, height, pixelRatio}: ElementSize) {
+    // Resizing also clears the canvas.
+    this.canvas.width = Math.round(width * pixelRatio);
+    this.canvas.height = Math.round(height * pixelRatio);
+  }
 
-      canvasCtx.globalCompositeOperation = 'lighter';
+  protected updated(changed: PropertyValues<this>) {
+    if (changed.has('maxPixelRatio')) {
+      this.sizer.maxPixelRatio = this.maxPixelRatio;
+    }
+    // Renderers need analysers of their own FFT size. The first render
+    // already has them, from connectedCallback.
+    if (changed.has('mode') && changed.get('mode') !== undefined) {
+      if (this.isConnected) this.attachAnalysers();
+      this.canvasCtx?.clearRect(0, 0, this.canvas.width, this.canvas.height);
+    }
+  }
 
-      const outputGradient = canvasCtx.createLinearGradient(0, 0, 0, HEIGHT);
-      outputGradient.addColorStop(1, '#3b82f6');
-      outputGradient.addColorStop(0.5, '#10b981');
-      outputGradient.addColorStop(0, '#ef4444');
-      canvasCtx.fillStyle = outputGradient;
+  private visualize() {
+    if (this.canvas && this.inputAnalyser && this.outputAnalyser) {
+      const canvasCtx = this.canvasCtx;
+      const {width: WIDTH, height: HEIGHT, pixelRatio} = this.sizer.size;
+      const renderer = this.renderer;
+      if (!WIDTH || !HEIGHT) return;
 
-      x = 0;
+      if (!renderer.persistent) {
+        canvasCtx.clearRect(0, 0, this.canvas.width, this.canvas.height);
+      }
+      this.inputAnalyser.update();
       this.outputAnalyser.update();
 
-      for (let i = 0; i < this.outputAnalyser.data.length; i++) {
-        const barHeight = this.outputAnalyser.data[i] * (HEIGHT / 255);
-        canvasCtx.fillRect(x, HEIGHT - barHeight, barWidth, barHeight);
-        x += barWidth;
-      }
+      canvasCtx.save();
+      canvasCtx.scale(pixelRatio, pixelRatio);
+      renderer.draw(
+        canvasCtx,
+        this.inputAnalyser,
+        this.outputAnalyser,
+        WIDTH,
+        HEIGHT,
+      );
+      canvasCtx.restore();
     }
-    requestAnimationFrame(() => this.visualize());
   }
 
   protected firstUpdated() {
-    this.canvas = this.shadowRoot!.querySelector('canvas');
-    this.canvas.width = 400;
-    this.canvas.height = 400;
-    this.canvasCtx = this.canvas.getContext('2d');
+    this.canvas = this.shadowRoot!.querySelector('canvas')!;
+    this.canvasCtx = this.canvas.getContext('2d')!;
+    this.sizer.onResize = (size) => this.resize(size);
+    if (this.isConnected) this.sizer.start();
   }
 
   protected render() {
@@ -117,4 +177,4 @@ declare global {
   interface HTMLElementTagNameMap {
     'gdm-live-audio-visuals': GdmLiveAudioVisuals;
   }
-}
\ No newline at end of file
+}
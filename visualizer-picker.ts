@@ -0,0 +1,76 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import {LitElement, css, html} from 'lit';
+import {customElement, property} from 'lit/decorators.js';
+import type {VisualizerInfo} from './visualizers';
+
+/** Visualizer picker. Fires `visualizer-change` with the chosen id. */
+@customElement('gdm-visualizer-picker')
+export class GdmVisualizerPicker extends LitElement {
+  @property({attribute: false}) visualizers: VisualizerInfo[] = [];
+  @property() selected = '';
+
+  static styles = css`
+    :host {
+      display: block;
+    }
+
+    label {
+      display: flex;
+      flex-direction: column;
+      gap: 4px;
+      margin: 0 0 12px;
+    }
+
+    select {
+      font: inherit;
+      color: inherit;
+      background: rgba(255, 255, 255, 0.1);
+      border: 1px solid rgba(255, 255, 255, 0.2);
+      border-radius: 6px;
+      padding: 6px;
+    }
+
+    option {
+      color: black;
+    }
+  `;
+
+  private select(id: string) {
+    this.dispatchEvent(
+      new CustomEvent<string>('visualizer-change', {
+        detail: id,
+        bubbles: true,
+        composed: true,
+      }),
+    );
+  }
+
+  protected render() {
+    return html`
+      <label>
+        Visualizer
+        <select
+          @change=${(e: Event) =>
+            this.select((e.target as HTMLSelectElement).value)}>
+          ${this.visualizers.map(
+            (v) =>
+              html`<option value=${v.id} ?selected=${v.id === this.selected}>
+                ${v.label}
+              </option>`,
+          )}
+        </select>
+      </label>
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'gdm-visualizer-picker': GdmVisualizerPicker;
+  }
+}
@@ -0,0 +1,100 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {TemplateResult, html} from 'lit';
+import {createLogger} from './logger';
+import type {VadState} from './vad';
+import './visual';
+import './visual-3d';
+
+const log = createLogger('visual');
+
+/** What every visualizer element accepts: the two nodes it listens to. */
+export interface AudioVisualizer {
+  /** Microphone audio. */
+  inputNode: AudioNode;
+  /** Model playback. */
+  outputNode: AudioNode;
+}
+
+/** Everything the app hands to whichever visualizer is shown. */
+export interface VisualizerContext extends AudioVisualizer {
+  vadState: VadState;
+  /** Name of the 3D visual preset. */
+  preset: string;
+}
+
+export interface VisualizerInfo {
+  id: string;
+  label: string;
+  /** Renders the visualizer element wired to `context`. */
+  render: (context: VisualizerContext) => TemplateResult;
+}
+
+export const DEFAULT_VISUALIZER = 'sphere';
+
+const registry = new Map<string, VisualizerInfo>();
+
+/** Adds a visualizer, replacing any with the same id. */
+export function registerVisualizer(info: VisualizerInfo) {
+  registry.set(info.id, info);
+}
+
+/** Registered visualizers, built-in ones first. */
+export function listVisualizers(): VisualizerInfo[] {
+  return [...registry.values()];
+}
+
+/** The visualizer with `id`, or the default one if there is none. */
+export function getVisualizer(id: string): VisualizerInfo {
+  return registry.get(id) ?? registry.get(DEFAULT_VISUALIZER)!;
+}
+
+registerVisualizer({
+  id: 'sphere',
+  label: '3D sphere',
+  render: ({inputNode, outputNode, vadState, preset}) =>
+    html`<gdm-live-audio-visuals-3d
+      .inputNode=${inputNode}
+      .outputNode=${outputNode}
+      .vadState=${vadState}
+      .preset=${preset}></gdm-live-audio-visuals-3d>`,
+});
+
+for (const [id, label] of [
+  ['bars', 'Bars'],
+  ['oscilloscope', 'Oscilloscope'],
+  ['spectrogram', 'Spectrogram'],
+  ['radial', 'Radial spectrum'],
+] as const) {
+  registerVisualizer({
+    id,
+    label,
+    render: ({inputNode, outputNode}) =>
+      html`<gdm-live-audio-visuals
+        mode=${id}
+        .inputNode=${inputNode}
+        .outputNode=${outputNode}></gdm-live-audio-visuals>`,
+  });
+}
+
+const STORAGE_KEY = 'gdm-live-audio:visualizer';
+
+export function loadVisualizer(): string {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (saved) return saved;
+  } catch (e) {
+    log.warn('Could not read saved visualizer:', e);
+  }
+  return DEFAULT_VISUALIZER;
+}
+
+export function saveVisualizer(id: string) {
+  try {
+    localStorage.setItem(STORAGE_KEY, id);
+  } catch (e) {
+    log.warn('Could not save visualizer:', e);
+  }
+}
@@ -1,12 +1,31 @@
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 
-export default defineConfig(({ mode }) => {
+export default defineConfig(({ command, mode }) => {
     const env = loadEnv(mode, '.', '');
+    // The API key only goes into the page when explicitly requested, and only
+    // from the dev server. Deployed builds talk to the key-holding proxy.
+    const embedKey = command === 'serve' && env.EMBED_API_KEY === 'true';
+    if (env.EMBED_API_KEY === 'true' && command !== 'serve') {
+      console.warn('EMBED_API_KEY is ignored for builds; use the proxy server.');
+    }
+    const apiKey = embedKey ? env.GEMINI_API_KEY : undefined;
     return {
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.API_KEY': JSON.stringify(apiKey),
+        'process.env.GEMINI_API_KEY': JSON.stringify(apiKey),
+        'process.env.LIVE_TRANSPORT': JSON.stringify(env.LIVE_TRANSPORT),
+        'process.env.MOCK_LIVE_URL': JSON.stringify(env.MOCK_LIVE_URL),
+        'process.env.LIVE_PROXY_URL': JSON.stringify(env.LIVE_PROXY_URL)
+      },
+      server: {
+        proxy: {
+          // Relay endpoint of scripts/live-proxy-server.mjs.
+          '/live': {
+            target: `ws://localhost:${env.LIVE_PROXY_PORT || 8787}`,
+            ws: true,
+          },
+        },
       },
       resolve: {
         alias: {
@@ -0,0 +1,80 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * Linear-interpolation resampler. Good enough for speech review; not meant
+ * for music.
+ */
+function resample(
+  data: Float32Array,
+  fromRate: number,
+  toRate: number,
+): Float32Array {
+  if (fromRate === toRate) return data.slice();
+  const length = Math.round((data.length * toRate) / fromRate);
+  const out = new Float32Array(length);
+  const step = fromRate / toRate;
+  for (let i = 0; i < length; i++) {
+    const pos = i * step;
+    const i0 = Math.floor(pos);
+    const i1 = Math.min(i0 + 1, data.length - 1);
+    const frac = pos - i0;
+    out[i] = data[i0] * (1 - frac) + data[i1] * frac;
+  }
+  return out;
+}
+
+function int16ToFloat32(data: Int16Array): Float32Array {
+  const out = new Float32Array(data.length);
+  for (let i = 0; i < data.length; i++) {
+    out[i] = data[i] / 32768.0;
+  }
+  return out;
+}
+
+/**
+ * Encodes planar float channels of equal length as a 16-bit PCM WAV file.
+ */
+function encodeWav(channels: Float32Array[], sampleRate: number): Blob {
+  const numChannels = channels.length;
+  const frames = numChannels ? channels[0].length : 0;
+  const blockAlign = numChannels * 2;
+  const dataSize = frames * blockAlign;
+  const buffer = new ArrayBuffer(44 + dataSize);
+  const view = new DataView(buffer);
+
+  const writeString = (offset: number, s: string) => {
+    for (let i = 0; i < s.length; i++) {
+      view.setUint8(offset + i, s.charCodeAt(i));
+    }
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true); // fmt chunk size
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, numChannels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * blockAlign, true);
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, 16, true); // bits per sample
+  writeString(36, 'data');
+  view.setUint32(40, dataSize, true);
+
+  let offset = 44;
+  for (let i = 0; i < frames; i++) {
+    for (let c = 0; c < numChannels; c++) {
+      const s = Math.max(-1, Math.min(1, channels[c][i]));
+      view.setInt16(offset, s < 0 ? s * 32768 : s * 32767, true);
+      offset += 2;
+    }
+  }
+
+  return new Blob([buffer], {type: 'audio/wav'});
+}
+
+export {encodeWav, int16ToFloat32, resample};
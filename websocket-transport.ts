@@ -0,0 +1,156 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type {
+  Content,
+  ContentListUnion,
+  LiveConnectConfig,
+  LiveSendClientContentParameters,
+  LiveSendRealtimeInputParameters,
+  LiveSendToolResponseParameters,
+  LiveServerMessage,
+  Part,
+} from '@google/genai';
+import type {LiveConnectRequest, LiveSession, LiveTransport} from './transport';
+
+/**
+ * Builds the `setup` message of the Live API wire format. Covers the fields
+ * the app sets; the SDK does the same conversion for direct connections.
+ */
+function toSetupMessage(model: string, config: LiveConnectConfig) {
+  const {
+    responseModalities,
+    speechConfig,
+    systemInstruction,
+    tools,
+    inputAudioTranscription,
+    outputAudioTranscription,
+  } = config;
+  return {
+    setup: {
+      model: model.startsWith('models/') ? model : `models/${model}`,
+      generationConfig: {responseModalities, speechConfig},
+      ...(systemInstruction
+        ? {
+            systemInstruction:
+              typeof systemInstruction === 'string'
+                ? {parts: [{text: systemInstruction}]}
+                : systemInstruction,
+          }
+        : {}),
+      ...(tools ? {tools} : {}),
+      ...(inputAudioTranscription ? {inputAudioTranscription} : {}),
+      ...(outputAudioTranscription ? {outputAudioTranscription} : {}),
+    },
+  };
+}
+
+/** Normalizes client content turns the way the SDK does for user text. */
+function toContents(turns: ContentListUnion): Content[] {
+  const list = Array.isArray(turns) ? turns : [turns];
+  return list.map((turn) => {
+    if (typeof turn === 'string') return {role: 'user', parts: [{text: turn}]};
+    if ('parts' in turn) return turn as Content;
+    return {role: 'user', parts: [turn as Part]};
+  });
+}
+
+const decoder = new TextDecoder();
+
+class WebSocketSession implements LiveSession {
+  constructor(private readonly ws: WebSocket) {}
+
+  sendRealtimeInput(params: LiveSendRealtimeInputParameters) {
+    this.send({realtimeInput: {mediaChunks: [params.media]}});
+  }
+
+  sendClientContent(params: LiveSendClientContentParameters) {
+    this.send({
+      clientContent: {
+        turns: params.turns === undefined ? [] : toContents(params.turns),
+        turnComplete: params.turnComplete ?? true,
+      },
+    });
+  }
+
+  sendToolResponse(params: LiveSendToolResponseParameters) {
+    const functionResponses = Array.isArray(params.functionResponses)
+      ? params.functionResponses
+      : [params.functionResponses];
+    this.send({toolResponse: {functionResponses}});
+  }
+
+  close() {
+    this.ws.close();
+  }
+
+  private send(message: unknown) {
+    this.ws.send(JSON.stringify(message));
+  }
+}
+
+/**
+ * Live sessions over a plain WebSocket that speaks the Live API wire format.
+ *
+ * Used for the key-holding proxy (scripts/live-proxy-server.mjs), which
+ * relays the socket to Gemini, and for the local mock server
+ * (scripts/mock-live-server.mjs). Neither needs an API key in the page.
+ */
+export class WebSocketTransport implements LiveTransport {
+  constructor(
+    private readonly url: string,
+    readonly name: string,
+  ) {}
+
+  connect({model, config, callbacks}: LiveConnectRequest): Promise<LiveSession> {
+    return new Promise((resolve, reject) => {
+      const ws = new WebSocket(this.url);
+      // Binary frames are decoded synchronously, so messages are delivered
+      // in the order they arrive and none can come after the close.
+      ws.binaryType = 'arraybuffer';
+      let opened = false;
+
+      ws.onopen = () => {
+        opened = true;
+        callbacks.onopen();
+        ws.send(JSON.stringify(toSetupMessage(model, config)));
+        resolve(new WebSocketSession(ws));
+      };
+      ws.onmessage = (event: MessageEvent) => {
+        let message: LiveServerMessage;
+        try {
+          // Gemini sends binary frames; the relay passes them through as-is.
+          const text =
+            event.data instanceof ArrayBuffer
+              ? decoder.decode(event.data)
+              : event.data;
+          message = JSON.parse(text) as LiveServerMessage;
+        } catch (e) {
+          // A malformed frame is reported; the session carries on.
+          callbacks.onerror(
+            new ErrorEvent('error', {
+              message: `Unreadable message from ${this.url}: ${(e as Error).message}`,
+              error: e,
+            }),
+          );
+          return;
+        }
+        callbacks.onmessage(message);
+      };
+      ws.onerror = () => {
+        callbacks.onerror(
+          new ErrorEvent('error', {
+            message: `WebSocket error at ${this.url}`,
+          }),
+        );
+      };
+      ws.onclose = (event: CloseEvent) => {
+        callbacks.onclose(event);
+        if (!opened) {
+          reject(new Error(`Could not reach the ${this.name} server at ${this.url}`));
+        }
+      };
+    });
+  }
+}